@@ -1,9 +1,55 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import AdminView from "./components/AdminView";
+import AnalyticsView from "./components/AnalyticsView";
+import AuditLogView from "./components/AuditLogView";
 import AuthScreen from "./components/AuthScreen";
+import LeaveApprovalsView from "./components/LeaveApprovalsView";
 import LoadingScreen from "./components/LoadingScreen";
+import MatrixView from "./components/MatrixView";
+import MyHistoryView from "./components/MyHistoryView";
+import OfficeSitesView from "./components/OfficeSitesView";
+import OfflineScreen from "./components/OfflineScreen";
+import PeopleView from "./components/PeopleView";
+import ShiftsView from "./components/ShiftsView";
+import TeamsView from "./components/TeamsView";
+import UpdatePrompt from "./components/UpdatePrompt";
 import UserView from "./components/UserView";
+import WorkCalendarView from "./components/WorkCalendarView";
 import { useAuth } from "./hooks/useAuth";
+import { useOnlineStatus } from "./hooks/useOnlineStatus";
+import { useServiceWorker } from "./hooks/useServiceWorker";
+
+type AdminScreen =
+  | "overview"
+  | "matrix"
+  | "analytics"
+  | "people"
+  | "sites"
+  | "teams"
+  | "shifts"
+  | "leave"
+  | "calendar"
+  | "audit";
+
+const adminScreens: { id: AdminScreen; label: string }[] = [
+  { id: "overview", label: "Overview" },
+  { id: "matrix", label: "Matrix" },
+  { id: "analytics", label: "Analytics" },
+  { id: "people", label: "People" },
+  { id: "sites", label: "Office sites" },
+  { id: "teams", label: "Teams" },
+  { id: "shifts", label: "Shifts" },
+  { id: "leave", label: "Leave" },
+  { id: "calendar", label: "Calendar" },
+  { id: "audit", label: "Audit log" }
+];
+
+type EmployeeScreen = "today" | "history";
+
+const employeeScreens: { id: EmployeeScreen; label: string }[] = [
+  { id: "today", label: "Today" },
+  { id: "history", label: "My history" }
+];
 
 function App() {
   const dateLabel = useMemo(() => {
@@ -15,18 +61,72 @@ function App() {
     });
   }, []);
 
-  const { user, loading, login, signup, logout, token } = useAuth();
+  const { user, loading, sessionNotice, login, signup, logout, token } = useAuth();
+  const [adminScreen, setAdminScreen] = useState<AdminScreen>("overview");
+  const [employeeScreen, setEmployeeScreen] = useState<EmployeeScreen>("today");
+  const online = useOnlineStatus();
+  const { updateAvailable, nextVersion, applyUpdate, dismissUpdate } = useServiceWorker();
+
+  const updatePrompt = updateAvailable ? (
+    <UpdatePrompt nextVersion={nextVersion} onReload={applyUpdate} onDismiss={dismissUpdate} />
+  ) : null;
 
   if (loading) {
     return <LoadingScreen />;
   }
 
+  const renderAdminScreen = () => {
+    switch (adminScreen) {
+      case "matrix":
+        return <MatrixView token={token} />;
+      case "analytics":
+        return <AnalyticsView token={token} />;
+      case "people":
+        return <PeopleView token={token} currentUserId={user?.id} />;
+      case "sites":
+        return <OfficeSitesView token={token} />;
+      case "teams":
+        return <TeamsView token={token} />;
+      case "shifts":
+        return <ShiftsView token={token} />;
+      case "leave":
+        return <LeaveApprovalsView token={token} />;
+      case "calendar":
+        return <WorkCalendarView token={token} />;
+      case "audit":
+        return <AuditLogView token={token} />;
+      case "overview":
+      default:
+        return <AdminView dateLabel={dateLabel} token={token} />;
+    }
+  };
+
+  // Employees can keep capturing offline; sign-in and admin screens need the network.
+  if (!online && (!user || user.role === "admin")) {
+    return (
+      <>
+        <OfflineScreen />
+        {updatePrompt}
+      </>
+    );
+  }
+
   if (!user) {
-    return <AuthScreen onLogin={login} onSignup={signup} />;
+    return (
+      <>
+        <AuthScreen onLogin={login} onSignup={signup} notice={sessionNotice} />
+        {updatePrompt}
+      </>
+    );
   }
 
   return (
     <div className="min-h-screen">
+      {!online && (
+        <div className="bg-amber-100 px-4 py-2 text-center text-xs font-semibold text-amber-800">
+          You&#39;re offline. Captures are saved on this device and sync when you reconnect.
+        </div>
+      )}
       <div className="mx-auto flex w-full max-w-6xl flex-wrap items-center justify-between gap-3 px-4 pt-6">
         <div>
           <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Attendance</p>
@@ -48,13 +148,55 @@ function App() {
         </div>
       </div>
 
+      {user.role === "admin" && (
+        <nav className="mx-auto w-full max-w-6xl overflow-x-auto px-4 pt-6">
+          <div className="flex w-max items-center gap-2 rounded-full bg-white p-1 shadow-soft">
+            {adminScreens.map((screen) => (
+              <button
+                key={screen.id}
+                className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
+                  adminScreen === screen.id ? "bg-ink-900 text-white" : "text-ink-600"
+                }`}
+                onClick={() => setAdminScreen(screen.id)}
+                type="button"
+              >
+                {screen.label}
+              </button>
+            ))}
+          </div>
+        </nav>
+      )}
+
+      {/* History needs the network; offline employees stay on the capture screen. */}
+      {user.role !== "admin" && online && (
+        <nav className="mx-auto w-full max-w-6xl overflow-x-auto px-4 pt-6">
+          <div className="flex w-max items-center gap-2 rounded-full bg-white p-1 shadow-soft">
+            {employeeScreens.map((screen) => (
+              <button
+                key={screen.id}
+                className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
+                  employeeScreen === screen.id ? "bg-ink-900 text-white" : "text-ink-600"
+                }`}
+                onClick={() => setEmployeeScreen(screen.id)}
+                type="button"
+              >
+                {screen.label}
+              </button>
+            ))}
+          </div>
+        </nav>
+      )}
+
       <main className="mx-auto w-full max-w-6xl px-4 pb-16 pt-6">
         {user.role === "admin" ? (
-          <AdminView dateLabel={dateLabel} token={token} />
+          renderAdminScreen()
+        ) : employeeScreen === "history" && online ? (
+          <MyHistoryView token={token} userId={user.id} />
         ) : (
-          <UserView dateLabel={dateLabel} userName={user.name} token={token} />
+          <UserView dateLabel={dateLabel} userId={user.id} userName={user.name} token={token} />
         )}
       </main>
+      {updatePrompt}
     </div>
   );
 }
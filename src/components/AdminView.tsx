@@ -1,29 +1,52 @@
 import { useEffect, useMemo, useState } from "react";
 import type { ReactNode } from "react";
+import { absenceRow, attendanceRow, signatureLabels, type AdminRow } from "../lib/adminRows";
+import { datesBetween } from "../lib/analytics";
+import { exportBlob, exportFormatLabels, type ExportFormat } from "../lib/attendanceExport";
 import { apiRequest } from "../lib/api";
-import { downloadFile } from "../lib/download";
+import { defaultWorkCalendar, nonWorkingReason } from "../lib/calendar";
+import { downloadFile, saveBlob } from "../lib/download";
 import { formatTime } from "../lib/format";
-import type { AttendanceRecord, RosterUser } from "../types";
+import { flagStatusLabels, flagStatusStyles } from "../lib/flags";
+import { resolveRecordSite } from "../lib/geofence";
+import { evaluateRecords } from "../lib/history";
+import { findLeaveOn, leaveTypeLabels } from "../lib/leave";
+import { isExpectedOn } from "../lib/people";
+import { riskLevel, type RiskLevel } from "../lib/locationRisk";
+import { defaultLatenessPolicy, formatMinutesLate } from "../lib/punctuality";
+import { emptyShiftSchedule, findShiftFor, isScheduledOn } from "../lib/shifts";
+import { latenessPolicySchema, toFieldErrors } from "../lib/validation";
+import type {
+  AttendanceRecord,
+  FlagCase,
+  LatenessPolicy,
+  LeaveRequest,
+  LivenessMode,
+  OfficeSite,
+  RosterUser,
+  ShiftSchedule,
+  Team,
+  WorkCalendar
+} from "../types";
+import CaptureDetailPanel from "./CaptureDetailPanel";
+import CheckinMap from "./CheckinMap";
+import ReminderDialog from "./ReminderDialog";
 import StatCard from "./StatCard";
 import UserHistoryPanel from "./UserHistoryPanel";
 
 const statusStyles: Record<string, string> = {
   "On time": "bg-emerald-100 text-emerald-800",
   Late: "bg-amber-100 text-amber-800",
-  Missing: "bg-rose-100 text-rose-800"
+  "Very late": "bg-orange-100 text-orange-800",
+  Missing: "bg-rose-100 text-rose-800",
+  "On leave": "bg-brand-100 text-brand-800",
+  "Day off": "bg-ink-100 text-ink-600"
 };
 
-type AdminRow = {
-  id: string;
-  name: string;
-  time: string;
-  status: "On time" | "Late" | "Missing";
-  location: string;
-  accuracy: string;
-  photoUrl?: string;
-  photoLabel: string;
-  flagComment?: string;
-  raw?: AttendanceRecord;
+const riskStyles: Record<RiskLevel, string> = {
+  low: "bg-ink-100 text-ink-700",
+  medium: "bg-amber-100 text-amber-800",
+  high: "bg-rose-100 text-rose-700"
 };
 
 export default function AdminView({
@@ -37,22 +60,38 @@ export default function AdminView({
   const [selectedDate, setSelectedDate] = useState(todayKey);
   const [items, setItems] = useState<AttendanceRecord[]>([]);
   const [roster, setRoster] = useState<RosterUser[]>([]);
-  const [filter, setFilter] = useState<"all" | "on-time" | "late" | "absent">("all");
+  const [leave, setLeave] = useState<LeaveRequest[]>([]);
+  const [sites, setSites] = useState<OfficeSite[]>([]);
+  const [calendar, setCalendar] = useState<WorkCalendar>(defaultWorkCalendar);
+  const [shifts, setShifts] = useState<ShiftSchedule>(emptyShiftSchedule);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [siteFilter, setSiteFilter] = useState("all");
+  const [teamFilter, setTeamFilter] = useState("all");
+  const [livenessFilter, setLivenessFilter] = useState<"any" | "passed" | "failed" | "unchecked">("any");
+  const [livenessMode, setLivenessMode] = useState<LivenessMode>("off");
+  const [savingLiveness, setSavingLiveness] = useState(false);
+  const [riskFilter, setRiskFilter] = useState<"any" | RiskLevel>("any");
+  const [sortByRisk, setSortByRisk] = useState(false);
+  const [filter, setFilter] = useState<"all" | "on-time" | "late" | "very-late" | "absent" | "leave">("all");
   const [selected, setSelected] = useState<AdminRow | null>(null);
+  const [feedMode, setFeedMode] = useState<"table" | "map">("table");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [cutoffTime, setCutoffTime] = useState("08:00");
   const [cutoffDraft, setCutoffDraft] = useState("08:00");
   const [savingCutoff, setSavingCutoff] = useState(false);
   const [cutoffError, setCutoffError] = useState("");
+  const [latenessPolicy, setLatenessPolicy] = useState<LatenessPolicy>(defaultLatenessPolicy);
+  const [graceDraft, setGraceDraft] = useState(String(defaultLatenessPolicy.graceMinutes));
+  const [veryLateDraft, setVeryLateDraft] = useState(String(defaultLatenessPolicy.veryLateAfterMinutes));
+  const [savingPolicy, setSavingPolicy] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [exportError, setExportError] = useState("");
   const [exportStart, setExportStart] = useState(todayKey);
   const [exportEnd, setExportEnd] = useState(todayKey);
-  const [flagDraft, setFlagDraft] = useState("");
-  const [flagSaving, setFlagSaving] = useState(false);
-  const [flagError, setFlagError] = useState("");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
   const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [reminderOpen, setReminderOpen] = useState(false);
 
   useEffect(() => {
     if (!token) {
@@ -61,10 +100,24 @@ export default function AdminView({
     setLoading(true);
     const path = `/admin/attendance?date=${selectedDate}`;
 
-    apiRequest<{ date: string; items: AttendanceRecord[]; users: RosterUser[]; cutoffTime?: string }>(path, { token })
+    apiRequest<{
+      date: string;
+      items: AttendanceRecord[];
+      users: RosterUser[];
+      leave?: LeaveRequest[];
+      cutoffTime?: string;
+      latenessPolicy?: LatenessPolicy;
+      livenessMode?: LivenessMode;
+    }>(path, { token })
       .then((data) => {
         setItems(data.items);
         setRoster(data.users);
+        setLeave(data.leave ?? []);
+        setLivenessMode(data.livenessMode ?? "off");
+        const policy = data.latenessPolicy ?? defaultLatenessPolicy;
+        setLatenessPolicy(policy);
+        setGraceDraft(String(policy.graceMinutes));
+        setVeryLateDraft(String(policy.veryLateAfterMinutes));
         if (data.cutoffTime) {
           setCutoffTime(data.cutoffTime);
           setCutoffDraft(data.cutoffTime);
@@ -78,6 +131,40 @@ export default function AdminView({
       });
   }, [token, selectedDate]);
 
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiRequest<{ items: OfficeSite[] }>("/admin/sites?includeArchived=true", { token })
+      .then((data) => {
+        setSites(data.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load office sites");
+      });
+    apiRequest<WorkCalendar>("/admin/calendar", { token })
+      .then((data) => {
+        setCalendar(data);
+      })
+      .catch(() => {
+        setCalendar(defaultWorkCalendar);
+      });
+    apiRequest<ShiftSchedule>("/admin/shifts", { token })
+      .then((data) => {
+        setShifts(data);
+      })
+      .catch(() => {
+        setShifts(emptyShiftSchedule);
+      });
+    apiRequest<{ items: Team[] }>("/admin/teams", { token })
+      .then((data) => {
+        setTeams(data.items);
+      })
+      .catch(() => {
+        setTeams([]);
+      });
+  }, [token]);
+
   useEffect(() => {
     setExportStart(selectedDate);
     setExportEnd(selectedDate);
@@ -98,36 +185,38 @@ export default function AdminView({
     });
   }, [selectedDate, todayKey, dateLabel]);
 
+  const offDayReason = useMemo(() => nonWorkingReason(selectedDate, calendar), [selectedDate, calendar]);
+
+  const historyContext = useMemo(
+    () => ({ calendar, shifts, sites, cutoffTime, latenessPolicy }),
+    [calendar, shifts, sites, cutoffTime, latenessPolicy]
+  );
+
   const { rows, attendanceRows, absentRows } = useMemo(() => {
-    const attendanceRows = items.map((item) => {
-      const status = resolveStatus(item, cutoffTime);
-      return {
-        id: item.id,
-        name: item.userName,
-        time: formatTime(item.capturedAt, item.timezone),
-        status,
-        location: item.locationLabel,
-        accuracy: formatAccuracy(item.accuracy),
-        photoUrl: item.photoUrl,
-        photoLabel: initials(item.userName),
-        flagComment: item.flagComment,
-        raw: item
-      } satisfies AdminRow;
+    const teamByUserId = new Map(roster.map((user) => [user.id, user.teamId]));
+    const attendanceRows = items.flatMap((item) => {
+      const teamId = teamByUserId.get(item.userId);
+      const row = attendanceRow(item, selectedDate, historyContext, teamId);
+      if ((siteFilter !== "all" && row.siteId !== siteFilter) || (teamFilter !== "all" && teamId !== teamFilter)) {
+        return [];
+      }
+      return [row];
     });
 
     const attendanceByUserId = new Map(items.map((item) => [item.userId, item]));
     const absentRows = roster
-      .filter((user) => !attendanceByUserId.has(user.id))
-      .map((user) => ({
-        id: `absent-${user.id}`,
-        name: user.name,
-        time: "--",
-        status: "Missing" as const,
-        location: "--",
-        accuracy: "--",
-        photoUrl: undefined,
-        photoLabel: initials(user.name)
-      }));
+      .filter((user) => !attendanceByUserId.has(user.id) && isExpectedOn(user, selectedDate))
+      .filter((user) => siteFilter === "all" || user.siteId === siteFilter)
+      .filter((user) => teamFilter === "all" || user.teamId === teamFilter)
+      .map((user) => {
+        const approvedLeave = findLeaveOn(leave, user.id, selectedDate);
+        const shift = findShiftFor(user.id, selectedDate, shifts);
+        const offReason =
+          offDayReason ?? (shift && !isScheduledOn(shift, selectedDate) ? `Off shift (${shift.name})` : null);
+        return approvedLeave
+          ? absenceRow(user, "On leave", leaveTypeLabels[approvedLeave.type])
+          : absenceRow(user, offReason ? "Day off" : "Missing", offReason ?? "--");
+      });
 
     const allRows = [...attendanceRows, ...absentRows].sort((a, b) => a.name.localeCompare(b.name));
 
@@ -137,10 +226,17 @@ export default function AdminView({
         rows = attendanceRows.filter((row) => row.status === "On time");
         break;
       case "late":
-        rows = attendanceRows.filter((row) => row.status === "Late");
+        // Matches the Late card, which counts both tiers; "Very late" narrows to the second tier.
+        rows = attendanceRows.filter((row) => row.status === "Late" || row.status === "Very late");
+        break;
+      case "very-late":
+        rows = attendanceRows.filter((row) => row.status === "Very late");
         break;
       case "absent":
-        rows = absentRows;
+        rows = absentRows.filter((row) => row.status === "Missing");
+        break;
+      case "leave":
+        rows = absentRows.filter((row) => row.status === "On leave");
         break;
       case "all":
       default:
@@ -148,8 +244,40 @@ export default function AdminView({
         break;
     }
 
+    if (livenessFilter !== "any") {
+      rows = rows.filter((row) => {
+        const passed = row.raw?.livenessPassed;
+        if (livenessFilter === "unchecked") {
+          return Boolean(row.raw) && passed === undefined;
+        }
+        return passed === (livenessFilter === "passed");
+      });
+    }
+
+    if (riskFilter !== "any") {
+      rows = rows.filter((row) => row.riskScore !== undefined && riskLevel(row.riskScore) === riskFilter);
+    }
+
+    if (sortByRisk) {
+      rows = [...rows].sort((a, b) => (b.riskScore ?? -1) - (a.riskScore ?? -1) || a.name.localeCompare(b.name));
+    }
+
     return { rows, attendanceRows, absentRows };
-  }, [items, roster, filter, cutoffTime]);
+  }, [
+    items,
+    roster,
+    leave,
+    selectedDate,
+    offDayReason,
+    shifts,
+    historyContext,
+    siteFilter,
+    teamFilter,
+    filter,
+    livenessFilter,
+    riskFilter,
+    sortByRisk
+  ]);
 
   useEffect(() => {
     if (rows.length === 0) {
@@ -160,25 +288,49 @@ export default function AdminView({
     if (
       !selected ||
       selected.id !== next.id ||
-      selected.flagComment !== next.flagComment ||
+      selected.flag?.updatedAt !== next.flag?.updatedAt ||
       selected.photoUrl !== next.photoUrl ||
-      selected.time !== next.time
+      selected.checkoutPhotoUrl !== next.checkoutPhotoUrl ||
+      selected.time !== next.time ||
+      selected.checkoutTime !== next.checkoutTime
     ) {
       setSelected(next);
     }
   }, [rows, selected]);
 
-  useEffect(() => {
-    setFlagDraft(selected?.raw?.flagComment ?? "");
-    setFlagError("");
-  }, [selected]);
-
   const stats = useMemo(() => {
-    const present = items.length;
-    const late = attendanceRows.filter((row) => row.status === "Late").length;
-    const missing = Math.max(roster.length - present, 0);
-    return { present, late, missing };
-  }, [items, attendanceRows, roster]);
+    const present = attendanceRows.length;
+    const veryLate = attendanceRows.filter((row) => row.status === "Very late").length;
+    const late = attendanceRows.filter((row) => row.status === "Late").length + veryLate;
+    const onLeave = absentRows.filter((row) => row.status === "On leave").length;
+    const missing = absentRows.filter((row) => row.status === "Missing").length;
+    return { present, late, veryLate, missing, onLeave };
+  }, [attendanceRows, absentRows]);
+
+  const teamStats = useMemo(
+    () =>
+      [...teams]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((team) => {
+          const present = attendanceRows.filter((row) => row.teamId === team.id);
+          return {
+            team,
+            present: present.length,
+            late: present.filter((row) => row.status === "Late" || row.status === "Very late").length,
+            missing: absentRows.filter((row) => row.teamId === team.id && row.status === "Missing").length
+          };
+        }),
+    [teams, attendanceRows, absentRows]
+  );
+
+  const absentUsers = useMemo(() => {
+    const absentIds = new Set(absentRows.filter((row) => row.status === "Missing").map((row) => row.userId));
+    return roster.filter((user) => absentIds.has(user.id));
+  }, [roster, absentRows]);
+
+  const activeSite = sites.find((site) => site.id === siteFilter);
+  const activeTeam = teams.find((team) => team.id === teamFilter);
+  const activeCutoff = activeSite?.cutoffTime ?? cutoffTime;
 
   const cutoffValid = /^([01]\d|2[0-3]):[0-5]\d$/.test(cutoffDraft);
   const dateValid = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
@@ -200,11 +352,46 @@ export default function AdminView({
       return;
     }
     try {
-      await downloadFile(
-        `/admin/export?start=${exportStart}&end=${exportEnd}`,
-        token,
-        `attendance-${exportStart}-to-${exportEnd}.xlsx`
+      if (exportFormat === "xlsx") {
+        const siteQuery = activeSite ? `&siteId=${activeSite.id}` : "";
+        const teamQuery = activeTeam ? `&teamId=${activeTeam.id}` : "";
+        await downloadFile(
+          `/admin/export?start=${exportStart}&end=${exportEnd}${siteQuery}${teamQuery}&workingDaysOnly=true`,
+          token,
+          `attendance-${exportStart}-to-${exportEnd}.xlsx`
+        );
+        return;
+      }
+      // Other formats are built in the browser; the day on screen is already loaded, longer periods are fetched.
+      const source =
+        exportStart === selectedDate && exportEnd === selectedDate
+          ? { items, users: roster, leave }
+          : await apiRequest<{ items: AttendanceRecord[]; users: RosterUser[]; leave?: LeaveRequest[] }>(
+              `/admin/analytics/attendance?start=${exportStart}&end=${exportEnd}`,
+              { token }
+            );
+      const teamByUserId = new Map(source.users.map((user) => [user.id, user.teamId]));
+      const scoped = source.items.filter(
+        (item) =>
+          (!activeSite || resolveRecordSite(item, sites)?.id === activeSite.id) &&
+          (!activeTeam || teamByUserId.get(item.userId) === activeTeam.id)
       );
+      const users = source.users.filter(
+        (user) => (!activeSite || user.siteId === activeSite.id) && (!activeTeam || user.teamId === activeTeam.id)
+      );
+      const blob = await exportBlob(exportFormat, {
+        title: "Attendance report",
+        period: exportStart === exportEnd ? exportStart : `${exportStart} to ${exportEnd}`,
+        filters: [activeTeam?.name, activeSite?.name].filter(Boolean).join(" · ") || "All staff",
+        items: scoped,
+        evaluations: evaluateRecords(scoped, historyContext),
+        users,
+        dates: datesBetween(exportStart, exportEnd),
+        leave: source.leave ?? [],
+        context: historyContext,
+        todayKey: new Date().toISOString().slice(0, 10)
+      });
+      saveBlob(blob, `attendance-${exportStart}-to-${exportEnd}.${exportFormat}`);
     } catch (err) {
       setExportError(err instanceof Error ? err.message : "Unable to export");
     } finally {
@@ -235,52 +422,62 @@ export default function AdminView({
     }
   };
 
-  const handleFlagSave = async () => {
-    if (!token || !selected?.raw) {
+  const handleSavePolicy = async () => {
+    if (!token) {
       return;
     }
-    const comment = flagDraft.trim();
-    if (!comment) {
-      setFlagError("Comment is required to flag a check-in.");
+    const parsed = latenessPolicySchema.safeParse({
+      graceMinutes: graceDraft.trim() === "" ? Number.NaN : Number(graceDraft),
+      veryLateAfterMinutes: veryLateDraft.trim() === "" ? Number.NaN : Number(veryLateDraft)
+    });
+    if (!parsed.success) {
+      const { fieldErrors } = toFieldErrors(parsed.error);
+      setCutoffError(fieldErrors.graceMinutes ?? fieldErrors.veryLateAfterMinutes ?? "Invalid lateness policy");
       return;
     }
-    setFlagSaving(true);
-    setFlagError("");
+    setSavingPolicy(true);
+    setCutoffError("");
     try {
-      const updated = await apiRequest<AttendanceRecord>(`/admin/attendance/${selected.raw.id}/flag`, {
+      const data = await apiRequest<{ latenessPolicy: LatenessPolicy }>("/admin/settings", {
         method: "PUT",
         token,
-        body: { comment }
+        body: { latenessPolicy: parsed.data }
       });
-      setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      setLatenessPolicy(data.latenessPolicy);
+      setGraceDraft(String(data.latenessPolicy.graceMinutes));
+      setVeryLateDraft(String(data.latenessPolicy.veryLateAfterMinutes));
+      setHistoryRefreshKey((value) => value + 1);
     } catch (err) {
-      setFlagError(err instanceof Error ? err.message : "Unable to flag check-in.");
+      setCutoffError(err instanceof Error ? err.message : "Unable to update lateness policy.");
     } finally {
-      setFlagSaving(false);
+      setSavingPolicy(false);
     }
   };
 
-  const handleFlagClear = async () => {
-    if (!token || !selected?.raw) {
+  const handleLivenessModeChange = async (mode: LivenessMode) => {
+    if (!token || mode === livenessMode) {
       return;
     }
-    setFlagSaving(true);
-    setFlagError("");
+    setSavingLiveness(true);
+    setCutoffError("");
     try {
-      const updated = await apiRequest<AttendanceRecord>(`/admin/attendance/${selected.raw.id}/flag`, {
+      const data = await apiRequest<{ livenessMode: LivenessMode }>("/admin/settings", {
         method: "PUT",
         token,
-        body: { comment: "" }
+        body: { livenessMode: mode }
       });
-      setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
-      setFlagDraft("");
+      setLivenessMode(data.livenessMode);
     } catch (err) {
-      setFlagError(err instanceof Error ? err.message : "Unable to clear flag.");
+      setCutoffError(err instanceof Error ? err.message : "Unable to update liveness check.");
     } finally {
-      setFlagSaving(false);
+      setSavingLiveness(false);
     }
   };
 
+  const applyFlagCase = (flagCase: FlagCase) => {
+    setItems((prev) => prev.map((item) => (item.id === flagCase.attendanceId ? { ...item, flag: flagCase } : item)));
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
@@ -288,7 +485,9 @@ export default function AdminView({
           <p className="text-xs uppercase tracking-[0.2em] text-ink-500">{dateHeading}</p>
           <h2 className="mt-2 text-3xl font-semibold text-ink-900">Attendance overview</h2>
           <p className="mt-2 text-ink-600">
-            Review punctuality, verify photo evidence, and spot missing check-ins.
+            {offDayReason
+              ? `Non-working day (${offDayReason}). Nobody is counted as missing.`
+              : "Review punctuality, verify photo evidence, and spot missing check-ins."}
           </p>
         </div>
         <div className="flex flex-wrap gap-3">
@@ -307,25 +506,50 @@ export default function AdminView({
               value={exportEnd}
               onChange={(event) => setExportEnd(event.target.value)}
             />
+            <select
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+              value={exportFormat}
+              onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+              aria-label="Export format"
+            >
+              {(Object.keys(exportFormatLabels) as ExportFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {exportFormatLabels[format]}
+                </option>
+              ))}
+            </select>
             <button
               className="rounded-full border border-ink-900 px-3 py-1 text-xs font-semibold text-ink-900 disabled:opacity-60"
               onClick={handleExportAll}
               disabled={exporting || !token}
             >
-              {exporting ? "Exporting..." : "Export all staff"}
+              {exporting
+                ? "Exporting..."
+                : activeSite || activeTeam
+                  ? `Export ${[activeTeam?.name, activeSite?.name].filter(Boolean).join(" · ")}`
+                  : "Export all staff"}
             </button>
           </div>
-          <button className="rounded-full bg-ink-900 px-4 py-2 text-sm font-semibold text-white">
+          <button
+            className="rounded-full bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+            onClick={() => setReminderOpen(true)}
+            disabled={!token}
+          >
             Send reminder
           </button>
         </div>
       </div>
 
       <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
-        <div className="grid gap-4 md:grid-cols-3">
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
           <StatCard label="Present" value={String(stats.present)} sub="checked in" />
-          <StatCard label="Late" value={String(stats.late)} sub={`after ${cutoffTime}`} />
+          <StatCard
+            label="Late"
+            value={String(stats.late)}
+            sub={stats.veryLate > 0 ? `${stats.veryLate} very late` : `after ${activeCutoff}`}
+          />
           <StatCard label="Missing" value={String(stats.missing)} sub="no photo" />
+          <StatCard label="On leave" value={String(stats.onLeave)} sub="approved" />
         </div>
         <div className="rounded-3xl bg-white p-5 shadow-soft">
           <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Cutoff time</p>
@@ -344,11 +568,84 @@ export default function AdminView({
               {savingCutoff ? "Saving..." : "Update"}
             </button>
           </div>
-          <p className="mt-2 text-xs text-ink-500">Applies to new check-ins and reports.</p>
+          <p className="mt-2 text-xs text-ink-500">
+            Default for new check-ins and reports. Site cutoffs and employee shifts override it.
+          </p>
+          <p className="mt-4 text-xs uppercase tracking-[0.2em] text-ink-500">Lateness tiers</p>
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-ink-600">
+            <label className="flex items-center gap-1">
+              Grace
+              <input
+                type="number"
+                min={0}
+                className="w-16 rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+                value={graceDraft}
+                onChange={(event) => setGraceDraft(event.target.value)}
+              />
+              min
+            </label>
+            <label className="flex items-center gap-1">
+              Very late after
+              <input
+                type="number"
+                min={1}
+                className="w-16 rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+                value={veryLateDraft}
+                onChange={(event) => setVeryLateDraft(event.target.value)}
+              />
+              min
+            </label>
+            <button
+              className="rounded-full border border-ink-900 px-3 py-1 text-xs font-semibold text-ink-900 disabled:opacity-60"
+              onClick={handleSavePolicy}
+              disabled={
+                savingPolicy ||
+                (graceDraft === String(latenessPolicy.graceMinutes) &&
+                  veryLateDraft === String(latenessPolicy.veryLateAfterMinutes))
+              }
+            >
+              {savingPolicy ? "Saving..." : "Save"}
+            </button>
+          </div>
           {cutoffError && <p className="mt-2 text-xs text-rose-600">{cutoffError}</p>}
+          <p className="mt-4 text-xs uppercase tracking-[0.2em] text-ink-500">Liveness check</p>
+          <div className="mt-3 flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+            {(["off", "optional", "required"] as const).map((mode) => (
+              <button
+                key={mode}
+                className={`rounded-full px-3 py-1 text-xs font-semibold capitalize transition disabled:opacity-60 ${
+                  livenessMode === mode ? "bg-ink-900 text-white" : "text-ink-600"
+                }`}
+                onClick={() => handleLivenessModeChange(mode)}
+                disabled={savingLiveness}
+                type="button"
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
+      {teamFilter === "all" && teamStats.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {teamStats.map((entry) => (
+            <button
+              key={entry.team.id}
+              className="text-left"
+              onClick={() => setTeamFilter(entry.team.id)}
+              title={`Show only ${entry.team.name}`}
+            >
+              <StatCard
+                label={entry.team.name}
+                value={String(entry.present)}
+                sub={`${entry.late} late · ${entry.missing} missing`}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,0.6fr)]">
         <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
           <div className="flex flex-wrap items-center justify-between gap-3">
@@ -361,6 +658,59 @@ export default function AdminView({
                   value={selectedDate}
                   onChange={(event) => setSelectedDate(event.target.value)}
                 />
+                {offDayReason && (
+                  <span className="rounded-full bg-ink-100 px-3 py-1 text-xs font-semibold text-ink-600">
+                    Non-working · {offDayReason}
+                  </span>
+                )}
+                <select
+                  className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                  value={siteFilter}
+                  onChange={(event) => setSiteFilter(event.target.value)}
+                >
+                  <option value="all">All sites</option>
+                  {sites.map((site) => (
+                    <option key={site.id} value={site.id}>
+                      {site.archivedAt ? `${site.name} (archived)` : site.name}
+                    </option>
+                  ))}
+                </select>
+                {teams.length > 0 && (
+                  <select
+                    className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                    value={teamFilter}
+                    onChange={(event) => setTeamFilter(event.target.value)}
+                  >
+                    <option value="all">All teams</option>
+                    {[...teams]
+                      .sort((a, b) => a.name.localeCompare(b.name))
+                      .map((team) => (
+                        <option key={team.id} value={team.id}>
+                          {team.name}
+                        </option>
+                      ))}
+                  </select>
+                )}
+                <select
+                  className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                  value={livenessFilter}
+                  onChange={(event) => setLivenessFilter(event.target.value as typeof livenessFilter)}
+                >
+                  <option value="any">Any liveness</option>
+                  <option value="passed">Liveness passed</option>
+                  <option value="failed">Liveness failed</option>
+                  <option value="unchecked">Liveness not checked</option>
+                </select>
+                <select
+                  className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                  value={riskFilter}
+                  onChange={(event) => setRiskFilter(event.target.value as typeof riskFilter)}
+                >
+                  <option value="any">Any location risk</option>
+                  <option value="high">High risk</option>
+                  <option value="medium">Medium risk</option>
+                  <option value="low">Low risk</option>
+                </select>
                 {selectedDate !== todayKey && (
                   <button
                     className="rounded-full border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700"
@@ -373,7 +723,7 @@ export default function AdminView({
             </div>
             <div className="flex flex-wrap gap-2">
               <FilterButton active={filter === "all"} onClick={() => setFilter("all")}>
-                All teams
+                All
               </FilterButton>
               <FilterButton active={filter === "on-time"} onClick={() => setFilter("on-time")}>
                 On time
@@ -381,76 +731,181 @@ export default function AdminView({
               <FilterButton active={filter === "late"} onClick={() => setFilter("late")}>
                 Late
               </FilterButton>
+              <FilterButton active={filter === "very-late"} onClick={() => setFilter("very-late")}>
+                Very late
+              </FilterButton>
               <FilterButton active={filter === "absent"} onClick={() => setFilter("absent")}>
                 Absent
               </FilterButton>
+              <FilterButton active={filter === "leave"} onClick={() => setFilter("leave")}>
+                On leave
+              </FilterButton>
             </div>
           </div>
 
-          <div className="mt-4 w-full min-w-0 max-w-full overflow-x-auto rounded-2xl border border-ink-100">
-            <table className="min-w-[720px] w-full text-left text-sm">
-              <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
-                <tr>
-                  <th className="px-4 py-3">Employee</th>
-                  <th className="px-4 py-3">Time</th>
-                  <th className="px-4 py-3">Status</th>
-                  <th className="px-4 py-3">Location</th>
-                  <th className="px-4 py-3">Accuracy</th>
-                  <th className="px-4 py-3">Photo</th>
-                </tr>
-              </thead>
-              <tbody>
-                {rows.map((row) => (
-                  <tr
-                    key={row.id}
-                    className={`border-t border-ink-100 transition hover:bg-ink-50 ${
-                      selected?.id === row.id ? "bg-ink-50" : ""
-                    }`}
-                    onClick={() => setSelected(row)}
-                  >
-                    <td className="px-4 py-3 font-semibold text-ink-900">{row.name}</td>
-                    <td className="px-4 py-3 text-ink-700">{row.time}</td>
-                    <td className="px-4 py-3">
-                      <div className="flex flex-wrap items-center gap-2">
-                        <span
-                          className={`rounded-full px-3 py-1 text-xs font-semibold ${statusStyles[row.status]}`}
-                        >
-                          {row.status}
-                        </span>
-                        {row.flagComment && (
-                          <span className="rounded-full bg-rose-100 px-2 py-1 text-xs font-semibold text-rose-700">
-                            Flagged
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 text-ink-600">{row.location}</td>
-                    <td className="px-4 py-3 text-ink-600">{row.accuracy}</td>
-                    <td className="px-4 py-3">
-                      {row.photoUrl ? (
-                        <img
-                          src={row.photoUrl}
-                          alt={row.name}
-                          className="h-9 w-9 rounded-full object-cover"
-                        />
-                      ) : (
-                        <div className="flex h-9 w-9 items-center justify-center rounded-full bg-ink-900 text-xs font-semibold text-white">
-                          {row.photoLabel}
-                        </div>
-                      )}
-                    </td>
-                  </tr>
-                ))}
-                {!loading && rows.length === 0 && (
+          <div className="mt-4 flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+            {(["table", "map"] as const).map((mode) => (
+              <button
+                key={mode}
+                className={`rounded-full px-3 py-1 text-xs font-semibold capitalize transition ${
+                  feedMode === mode ? "bg-ink-900 text-white" : "text-ink-600"
+                }`}
+                onClick={() => setFeedMode(mode)}
+                type="button"
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          {feedMode === "map" ? (
+            <div className="mt-4">
+              <CheckinMap rows={rows} sites={sites} selectedId={selected?.id} onSelect={setSelected} />
+            </div>
+          ) : (
+            <div className="mt-4 w-full min-w-0 max-w-full overflow-x-auto rounded-2xl border border-ink-100">
+              <table className="min-w-[1000px] w-full text-left text-sm">
+                <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
                   <tr>
-                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={6}>
-                      No check-ins recorded yet.
-                    </td>
+                    <th className="px-4 py-3">Employee</th>
+                    <th className="px-4 py-3">Time</th>
+                    <th className="px-4 py-3">Out</th>
+                    <th className="px-4 py-3">Hours</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Location</th>
+                    <th className="px-4 py-3">Accuracy</th>
+                    <th className="px-4 py-3">
+                      <button
+                        className="uppercase tracking-[0.2em]"
+                        onClick={() => setSortByRisk((current) => !current)}
+                        title={sortByRisk ? "Sort by name" : "Sort by risk"}
+                      >
+                        Risk {sortByRisk ? "↓" : ""}
+                      </button>
+                    </th>
+                    <th className="px-4 py-3">Photo</th>
                   </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.id}
+                      className={`border-t border-ink-100 transition hover:bg-ink-50 ${
+                        selected?.id === row.id ? "bg-ink-50" : ""
+                      }`}
+                      onClick={() => setSelected(row)}
+                    >
+                      <td className="px-4 py-3 font-semibold text-ink-900">{row.name}</td>
+                      <td className="px-4 py-3 text-ink-700">
+                        {row.time}
+                        {row.minutesLate ? (
+                          <span className="ml-2 text-xs font-semibold text-amber-700">
+                            {formatMinutesLate(row.minutesLate)}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3 text-ink-700">{row.checkoutTime}</td>
+                      <td className="px-4 py-3 text-ink-700">{row.workedHours}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span
+                            className={`rounded-full px-3 py-1 text-xs font-semibold ${statusStyles[row.status]}`}
+                          >
+                            {row.status}
+                          </span>
+                          {row.flag && (
+                            <span
+                              className={`rounded-full px-2 py-1 text-xs font-semibold ${flagStatusStyles[row.flag.status]}`}
+                            >
+                              Flag · {flagStatusLabels[row.flag.status]}
+                            </span>
+                          )}
+                          {row.raw?.livenessPassed !== undefined && (
+                            <span
+                              className={`rounded-full px-2 py-1 text-xs font-semibold ${
+                                row.raw.livenessPassed ? "bg-ink-100 text-ink-700" : "bg-rose-100 text-rose-700"
+                              }`}
+                            >
+                              {row.raw.livenessPassed ? "Live" : "Liveness failed"}
+                              {typeof row.raw.livenessScore === "number" &&
+                                ` · ${Math.round(row.raw.livenessScore * 100)}%`}
+                            </span>
+                          )}
+                          {row.raw && (
+                            <span
+                              className={`rounded-full px-2 py-1 text-xs font-semibold ${
+                                row.raw.signatureStatus
+                                  ? signatureLabels[row.raw.signatureStatus].style
+                                  : "bg-ink-100 text-ink-600"
+                              }`}
+                              title={row.raw.deviceId ? `Device ${row.raw.deviceId}` : undefined}
+                            >
+                              {row.raw.signatureStatus ? signatureLabels[row.raw.signatureStatus].label : "Unsigned"}
+                            </span>
+                          )}
+                          {row.raw?.delayedSync && (
+                            <span
+                              className="rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800"
+                              title={row.raw.syncedAt ? `Synced at ${formatTime(row.raw.syncedAt, row.raw.timezone)}` : undefined}
+                            >
+                              Delayed sync
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-ink-600" title={row.locationDetail}>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span>{row.location}</span>
+                          {row.siteDistance !== "--" && (
+                            <span
+                              className={`rounded-full px-2 py-1 text-xs font-semibold ${
+                                row.outsideGeofence ? "bg-rose-100 text-rose-700" : "bg-ink-100 text-ink-700"
+                              }`}
+                            >
+                              {row.outsideGeofence ? `Outside · ${row.siteDistance}` : row.siteDistance}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-ink-600">{row.accuracy}</td>
+                      <td className="px-4 py-3">
+                        {row.riskScore !== undefined ? (
+                          <span
+                            className={`rounded-full px-2 py-1 text-xs font-semibold ${riskStyles[riskLevel(row.riskScore)]}`}
+                            title={row.riskReasons?.join("\n") || "No spoofing signals"}
+                          >
+                            {row.riskScore}
+                          </span>
+                        ) : (
+                          <span className="text-ink-400">--</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {row.photoUrl ? (
+                          <img
+                            src={row.photoUrl}
+                            alt={row.name}
+                            className="h-9 w-9 rounded-full object-cover"
+                          />
+                        ) : (
+                          <div className="flex h-9 w-9 items-center justify-center rounded-full bg-ink-900 text-xs font-semibold text-white">
+                            {row.photoLabel}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {!loading && rows.length === 0 && (
+                    <tr>
+                      <td className="px-4 py-6 text-sm text-ink-500" colSpan={9}>
+                        No check-ins recorded yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
           {error && (
             <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
               {error}
@@ -463,79 +918,29 @@ export default function AdminView({
           )}
         </div>
 
-        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
-          <h3 className="text-lg font-semibold text-ink-900">Verified capture</h3>
-          <div className="mt-4 flex w-full items-center justify-center overflow-hidden rounded-2xl border border-dashed border-ink-200 bg-ink-50 aspect-[3/4] max-h-[60vh] sm:aspect-[4/5] lg:aspect-[3/4] min-w-0">
-            {selected?.photoUrl ? (
-              <img src={selected.photoUrl} alt={selected.name} className="h-full w-full object-contain" />
-            ) : (
-              <span className="text-sm text-ink-500">Select a row to preview</span>
-            )}
-          </div>
-          <div className="mt-4 space-y-3 text-sm text-ink-600">
-            <div className="flex items-center justify-between">
-              <span>Employee</span>
-              <span className="font-semibold text-ink-900">{selected?.name ?? "--"}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span>Captured</span>
-              <span className="font-semibold text-ink-900">{selected?.time ?? "--"}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span>Location</span>
-              <span className="font-semibold text-ink-900">{selected?.location ?? "--"}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span>Flag status</span>
-              <span className="font-semibold text-ink-900">
-                {selected?.flagComment ? "Flagged" : "Clear"}
-              </span>
-            </div>
-          </div>
-
-          {selected?.raw ? (
-            <div className="mt-6 space-y-3">
-              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
-                Flag comment
-              </label>
-              <textarea
-                className="min-h-[88px] w-full resize-none rounded-2xl border border-ink-200 px-4 py-3 text-sm text-ink-700 focus:border-ink-400"
-                placeholder="Describe the issue for this check-in"
-                value={flagDraft}
-                onChange={(event) => setFlagDraft(event.target.value)}
-              />
-              {flagError && <p className="text-xs text-rose-600">{flagError}</p>}
-              <div className="flex flex-wrap gap-2">
-                <button
-                  className="rounded-2xl bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
-                  onClick={handleFlagSave}
-                  disabled={flagSaving}
-                >
-                  {flagSaving ? "Saving..." : "Save flag"}
-                </button>
-                <button
-                  className="rounded-2xl border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700 disabled:opacity-60"
-                  onClick={handleFlagClear}
-                  disabled={flagSaving || !selected?.flagComment}
-                >
-                  Clear flag
-                </button>
-              </div>
-            </div>
-          ) : (
-            <button className="mt-6 w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm font-semibold text-ink-700 transition hover:bg-ink-50" disabled>
-              Flag issue
-            </button>
-          )}
-        </div>
+        <CaptureDetailPanel token={token} selected={selected} onFlagUpdated={applyFlagCase} />
       </div>
 
       <UserHistoryPanel
         token={token}
         roster={roster}
+        teams={teams}
+        sites={sites}
+        calendar={calendar}
+        shifts={shifts}
+        latenessPolicy={latenessPolicy}
         cutoffTime={cutoffTime}
         refreshKey={historyRefreshKey}
       />
+
+      {reminderOpen && (
+        <ReminderDialog
+          token={token}
+          absentUsers={absentUsers}
+          cutoffTime={activeCutoff}
+          onClose={() => setReminderOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -561,69 +966,3 @@ function FilterButton({
     </button>
   );
 }
-
-function resolveStatus(item: AttendanceRecord, cutoffTime: string): "On time" | "Late" {
-  const cutoff = parseCutoffTime(cutoffTime) ?? { hour: 8, minute: 0 };
-  const { hour, minute } = getLocalTimeParts(item.capturedAt, item.timezone);
-  if (hour < cutoff.hour) {
-    return "On time";
-  }
-  if (hour === cutoff.hour && minute <= cutoff.minute) {
-    return "On time";
-  }
-  return "Late";
-}
-
-function getLocalTimeParts(iso: string, timeZone?: string) {
-  const date = new Date(iso);
-  if (Number.isNaN(date.getTime())) {
-    return { hour: 0, minute: 0 };
-  }
-  try {
-    const formatter = new Intl.DateTimeFormat("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: false,
-      timeZone
-    });
-    const parts = formatter.formatToParts(date);
-    const hour = Number(parts.find((part) => part.type === "hour")?.value ?? "0");
-    const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0");
-    return { hour, minute };
-  } catch {
-    const formatter = new Intl.DateTimeFormat("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: false
-    });
-    const parts = formatter.formatToParts(date);
-    const hour = Number(parts.find((part) => part.type === "hour")?.value ?? "0");
-    const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0");
-    return { hour, minute };
-  }
-}
-
-function formatAccuracy(accuracy?: number) {
-  if (typeof accuracy !== "number" || Number.isNaN(accuracy)) {
-    return "--";
-  }
-  return `±${Math.round(accuracy)}m`;
-}
-
-function parseCutoffTime(value: string) {
-  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
-  if (!match) {
-    return null;
-  }
-  return { hour: Number(match[1]), minute: Number(match[2]) };
-}
-
-function initials(name: string) {
-  return name
-    .split(" ")
-    .map((part) => part[0])
-    .filter(Boolean)
-    .slice(0, 2)
-    .join("")
-    .toUpperCase();
-}
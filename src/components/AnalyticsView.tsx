@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import {
+  absenceByWeekday,
+  arrivalDistribution,
+  punctualityMovers,
+  punctualityTrend,
+  type PunctualityMover,
+  type TrendBucket
+} from "../lib/analytics";
+import { apiRequest } from "../lib/api";
+import { defaultWorkCalendar } from "../lib/calendar";
+import { csvBlob, type CsvValue } from "../lib/csv";
+import { saveBlob } from "../lib/download";
+import { evaluateRecords } from "../lib/history";
+import { defaultLatenessPolicy } from "../lib/punctuality";
+import { emptyShiftSchedule } from "../lib/shifts";
+import type {
+  AttendanceRecord,
+  LatenessPolicy,
+  LeaveRequest,
+  OfficeSite,
+  RosterUser,
+  ShiftSchedule,
+  WorkCalendar
+} from "../types";
+import BarChart from "./BarChart";
+import LineChart from "./LineChart";
+
+type AnalyticsResponse = {
+  items: AttendanceRecord[];
+  users: RosterUser[];
+  leave?: LeaveRequest[];
+  cutoffTime?: string;
+  latenessPolicy?: LatenessPolicy;
+};
+
+const presets: { id: string; label: string; days: number }[] = [
+  { id: "4w", label: "4 weeks", days: 28 },
+  { id: "3m", label: "3 months", days: 91 },
+  { id: "6m", label: "6 months", days: 182 },
+  { id: "12m", label: "12 months", days: 365 }
+];
+
+function daysAgo(today: string, days: number) {
+  const date = new Date(`${today}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - days + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export default function AnalyticsView({ token }: { token: string | null }) {
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [start, setStart] = useState(() => daysAgo(todayKey, 91));
+  const [end, setEnd] = useState(todayKey);
+  const [bucket, setBucket] = useState<TrendBucket>("week");
+  const [data, setData] = useState<AnalyticsResponse | null>(null);
+  const [calendar, setCalendar] = useState<WorkCalendar>(defaultWorkCalendar);
+  const [shifts, setShifts] = useState<ShiftSchedule>(emptyShiftSchedule);
+  const [sites, setSites] = useState<OfficeSite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const rangeValid = /^\d{4}-\d{2}-\d{2}$/.test(start) && /^\d{4}-\d{2}-\d{2}$/.test(end) && start <= end;
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiRequest<WorkCalendar>("/admin/calendar", { token })
+      .then((response) => {
+        setCalendar(response);
+      })
+      .catch(() => {
+        setCalendar(defaultWorkCalendar);
+      });
+    apiRequest<ShiftSchedule>("/admin/shifts", { token })
+      .then((response) => {
+        setShifts(response);
+      })
+      .catch(() => {
+        setShifts(emptyShiftSchedule);
+      });
+    apiRequest<{ items: OfficeSite[] }>("/admin/sites?includeArchived=true", { token })
+      .then((response) => {
+        setSites(response.items);
+      })
+      .catch(() => {
+        setSites([]);
+      });
+  }, [token]);
+
+  useEffect(() => {
+    if (!token || !rangeValid) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    apiRequest<AnalyticsResponse>(`/admin/analytics/attendance?start=${start}&end=${end}`, { token })
+      .then((response) => {
+        setData(response);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load analytics");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token, start, end, rangeValid]);
+
+  const cutoffTime = data?.cutoffTime ?? "08:00";
+  const context = useMemo(
+    () => ({
+      calendar,
+      shifts,
+      sites,
+      cutoffTime,
+      latenessPolicy: data?.latenessPolicy ?? defaultLatenessPolicy
+    }),
+    [calendar, shifts, sites, cutoffTime, data]
+  );
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const users = useMemo(() => data?.users ?? [], [data]);
+  const evaluations = useMemo(() => evaluateRecords(items, context), [items, context]);
+
+  const trend = useMemo(() => punctualityTrend(items, evaluations, bucket), [items, evaluations, bucket]);
+  const arrivals = useMemo(() => arrivalDistribution(items, evaluations), [items, evaluations]);
+  const absence = useMemo(() => {
+    // Future days have no check-ins yet, so they would all read as absences.
+    const lastDay = end < todayKey ? end : todayKey;
+    const approved = (data?.leave ?? []).filter((entry) => entry.status === "approved");
+    return absenceByWeekday(users, items, approved, context, start, lastDay);
+  }, [users, items, data, context, start, end, todayKey]);
+  const movers = useMemo(
+    () => punctualityMovers(users, items, evaluations, start, end),
+    [users, items, evaluations, start, end]
+  );
+
+  const activePreset = presets.find((preset) => end === todayKey && start === daysAgo(todayKey, preset.days));
+
+  const download = (name: string, headers: string[], rows: CsvValue[][]) => {
+    saveBlob(csvBlob(headers, rows), `${name}-${start}-to-${end}.csv`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Trends</p>
+          <h2 className="mt-2 text-3xl font-semibold text-ink-900">Analytics</h2>
+          <p className="mt-2 text-ink-600">Punctuality and absence across the whole organisation.</p>
+        </div>
+        <div className="flex flex-col gap-3">
+          <div className="flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+            {presets.map((preset) => (
+              <button
+                key={preset.id}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                  activePreset?.id === preset.id ? "bg-ink-900 text-white" : "text-ink-600"
+                }`}
+                onClick={() => {
+                  setStart(daysAgo(todayKey, preset.days));
+                  setEnd(todayKey);
+                }}
+                type="button"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+              value={start}
+              onChange={(event) => setStart(event.target.value)}
+            />
+            <span className="text-[10px] uppercase tracking-[0.2em] text-ink-500">to</span>
+            <input
+              type="date"
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+              value={end}
+              onChange={(event) => setEnd(event.target.value)}
+            />
+          </div>
+          {!rangeValid && <p className="text-xs text-rose-600">Start date must be on or before end date.</p>}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+      {loading && <p className="text-sm text-ink-500">Loading analytics...</p>}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ChartCard
+          title="Punctuality rate"
+          subtitle="Share of working-day check-ins that were on time"
+          onDownload={() =>
+            download(
+              `punctuality-by-${bucket}`,
+              [bucket === "week" ? "Week starting" : "Month", "On time", "Check-ins", "Rate %"],
+              trend.map((point) => [point.period, point.onTime, point.total, point.rate])
+            )
+          }
+          actions={
+            <div className="flex w-max items-center gap-1 rounded-full bg-ink-50 p-1">
+              {(["week", "month"] as const).map((item) => (
+                <button
+                  key={item}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold capitalize transition ${
+                    bucket === item ? "bg-ink-900 text-white" : "text-ink-600"
+                  }`}
+                  onClick={() => setBucket(item)}
+                  type="button"
+                >
+                  {item}
+                </button>
+              ))}
+            </div>
+          }
+        >
+          <LineChart
+            points={trend.map((point) => ({
+              label: bucket === "week" ? point.period.slice(5) : point.period,
+              value: point.rate
+            }))}
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Arrival times"
+          subtitle={`Minutes from scheduled start (default cutoff ${cutoffTime})`}
+          onDownload={() =>
+            download(
+              "arrival-distribution",
+              ["Minutes from start", "Check-ins"],
+              arrivals.map((bin) => [bin.label, bin.count])
+            )
+          }
+        >
+          <BarChart
+            bars={arrivals.map((bin) => ({
+              label: bin.label,
+              value: bin.count,
+              tone: bin.offset >= 0 ? "warn" : "default",
+              hint: `${bin.label} to ${bin.offset + 10} min: ${bin.count} check-in(s)`
+            }))}
+            markerLabel="0"
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Absence by weekday"
+          subtitle="Missing check-ins as a share of expected working days"
+          onDownload={() =>
+            download(
+              "absence-by-weekday",
+              ["Weekday", "Expected", "Absent", "Rate %"],
+              absence.map((day) => [day.label, day.expected, day.absent, day.rate])
+            )
+          }
+        >
+          <BarChart
+            bars={absence.map((day) => ({
+              label: day.label,
+              value: day.rate,
+              tone: day.expected === 0 ? "muted" : "default",
+              hint: `${day.label}: ${day.absent} of ${day.expected} (${day.rate}%)`
+            }))}
+            suffix="%"
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Biggest changes"
+          subtitle="On-time rate, first half of the range vs second half"
+          onDownload={() =>
+            download(
+              "punctuality-changes",
+              ["Employee", "First half %", "Second half %", "Change (pts)"],
+              [...movers.improved, ...movers.declined].map((mover) => [
+                mover.name,
+                mover.before,
+                mover.after,
+                mover.delta
+              ])
+            )
+          }
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <MoverList title="Most improved" movers={movers.improved.slice(0, 5)} />
+            <MoverList title="Most declined" movers={movers.declined.slice(0, 5)} />
+          </div>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
+
+function ChartCard({
+  title,
+  subtitle,
+  actions,
+  onDownload,
+  children
+}: {
+  title: string;
+  subtitle: string;
+  actions?: ReactNode;
+  onDownload: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-ink-900">{title}</h3>
+          <p className="mt-1 text-xs text-ink-500">{subtitle}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {actions}
+          <button
+            className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700"
+            onClick={onDownload}
+          >
+            CSV
+          </button>
+        </div>
+      </div>
+      <div className="mt-4">{children}</div>
+    </div>
+  );
+}
+
+function MoverList({ title, movers }: { title: string; movers: PunctualityMover[] }) {
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">{title}</p>
+      <ul className="mt-2 space-y-2 text-sm">
+        {movers.length === 0 && <li className="text-ink-500">Not enough check-ins yet.</li>}
+        {movers.map((mover) => (
+          <li key={mover.userId} className="flex items-center justify-between gap-2">
+            <span className="truncate text-ink-800">{mover.name}</span>
+            <span className={`font-semibold ${mover.delta > 0 ? "text-emerald-700" : "text-rose-700"}`}>
+              {mover.before}% → {mover.after}%
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { auditActionLabels, auditChanges } from "../lib/audit";
+import { downloadFile } from "../lib/download";
+import { formatDate, formatTime } from "../lib/format";
+import type { AuditAction, AuditEntry } from "../types";
+
+type AuditResponse = {
+  items: AuditEntry[];
+  actors: { id: string; name: string }[];
+  nextCursor?: string;
+};
+
+export default function AuditLogView({ token }: { token: string | null }) {
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const monthStart = `${todayKey.slice(0, 8)}01`;
+  const [items, setItems] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<AuditResponse["actors"]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [actorId, setActorId] = useState("");
+  const [action, setAction] = useState<AuditAction | "">("");
+  const [start, setStart] = useState(monthStart);
+  const [end, setEnd] = useState(todayKey);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams({ start, end });
+    if (actorId) {
+      params.set("actorId", actorId);
+    }
+    if (action) {
+      params.set("action", action);
+    }
+    return params.toString();
+  }, [actorId, action, start, end]);
+  // The filters in effect right now, for requests that finish after they changed.
+  const currentQuery = useRef(query);
+  currentQuery.current = query;
+
+  const rangeValid = /^\d{4}-\d{2}-\d{2}$/.test(start) && /^\d{4}-\d{2}-\d{2}$/.test(end) && start <= end;
+
+  useEffect(() => {
+    if (!token || !rangeValid) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    let active = true;
+    apiRequest<AuditResponse>(`/admin/audit?${query}`, { token })
+      .then((data) => {
+        if (active) {
+          setItems(data.items);
+          setActors(data.actors);
+          setNextCursor(data.nextCursor);
+        }
+      })
+      .catch((err) => {
+        if (active) {
+          setError(err instanceof Error ? err.message : "Unable to load audit log");
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [token, query, rangeValid]);
+
+  const handleLoadMore = async () => {
+    if (!token || !nextCursor) {
+      return;
+    }
+    const requestedQuery = query;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams(requestedQuery);
+      params.set("cursor", nextCursor);
+      const data = await apiRequest<AuditResponse>(`/admin/audit?${params.toString()}`, { token });
+      // A page for the old filters would be appended to the newly filtered list.
+      if (currentQuery.current !== requestedQuery) {
+        return;
+      }
+      setItems((prev) => [...prev, ...data.items]);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      if (currentQuery.current === requestedQuery) {
+        setError(err instanceof Error ? err.message : "Unable to load more entries");
+      }
+    } finally {
+      if (currentQuery.current === requestedQuery) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleExport = async () => {
+    if (!token || !rangeValid) {
+      return;
+    }
+    setExporting(true);
+    setError("");
+    try {
+      await downloadFile(`/admin/audit/export?${query}`, token, `audit-${start}-to-${end}.csv`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Compliance</p>
+          <h2 className="mt-2 text-3xl font-semibold text-ink-900">Audit log</h2>
+          <p className="mt-2 text-ink-600">Every admin change, who made it and what it replaced. Entries cannot be edited.</p>
+        </div>
+        <button
+          className="rounded-full border border-ink-900 px-4 py-2 text-sm font-semibold text-ink-900 disabled:opacity-60"
+          onClick={handleExport}
+          disabled={exporting || !token || !rangeValid}
+        >
+          {exporting ? "Exporting..." : "Export CSV"}
+        </button>
+      </div>
+
+      <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={actorId}
+            onChange={(event) => setActorId(event.target.value)}
+          >
+            <option value="">Any admin</option>
+            {actors.map((actor) => (
+              <option key={actor.id} value={actor.id}>
+                {actor.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={action}
+            onChange={(event) => setAction(event.target.value as AuditAction | "")}
+          >
+            <option value="">Any action</option>
+            {(Object.keys(auditActionLabels) as AuditAction[]).map((item) => (
+              <option key={item} value={item}>
+                {auditActionLabels[item]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={start}
+            onChange={(event) => setStart(event.target.value)}
+          />
+          <span className="text-xs uppercase tracking-[0.2em] text-ink-500">to</span>
+          <input
+            type="date"
+            className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={end}
+            onChange={(event) => setEnd(event.target.value)}
+          />
+          {!rangeValid && <span className="text-xs text-rose-600">Start date must be on or before end date.</span>}
+        </div>
+
+        <div className="mt-4 overflow-x-auto rounded-2xl border border-ink-100">
+          <table className="w-full min-w-[760px] text-left text-sm">
+            <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
+              <tr>
+                <th className="px-4 py-3">When</th>
+                <th className="px-4 py-3">Admin</th>
+                <th className="px-4 py-3">Action</th>
+                <th className="px-4 py-3">Target</th>
+                <th className="px-4 py-3">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((entry) => {
+                const changes = auditChanges(entry);
+                return (
+                  <tr key={entry.id} className="border-t border-ink-100 align-top">
+                    <td className="px-4 py-3 text-ink-700">
+                      {formatDate(entry.createdAt)}
+                      <p className="text-xs text-ink-500">{formatTime(entry.createdAt)}</p>
+                    </td>
+                    <td className="px-4 py-3 font-semibold text-ink-900">{entry.actorName}</td>
+                    <td className="px-4 py-3 text-ink-700">{auditActionLabels[entry.action] ?? entry.action}</td>
+                    <td className="px-4 py-3 text-ink-600">{entry.targetLabel ?? entry.targetType}</td>
+                    <td className="px-4 py-3 text-xs text-ink-600">
+                      {changes.length === 0 && "--"}
+                      {changes.map((change) => (
+                        <p key={change.field} className="break-all">
+                          <span className="font-semibold text-ink-700">{change.field}</span>: {change.before} →{" "}
+                          {change.after}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+              {!loading && items.length === 0 && (
+                <tr>
+                  <td className="px-4 py-6 text-sm text-ink-500" colSpan={5}>
+                    No audit entries for these filters.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {nextCursor && (
+          <button
+            className="mt-4 rounded-full border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700 disabled:opacity-60"
+            onClick={handleLoadMore}
+            disabled={loading}
+          >
+            {loading ? "Loading..." : "Load more"}
+          </button>
+        )}
+        {error && (
+          <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
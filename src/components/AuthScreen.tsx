@@ -12,7 +12,8 @@ import {
 
 export default function AuthScreen({
   onLogin,
-  onSignup
+  onSignup,
+  notice
 }: {
   onLogin: (payload: { email: string; password: string }) => Promise<void>;
   onSignup: (payload: {
@@ -22,6 +23,7 @@ export default function AuthScreen({
     role: Role;
     inviteCode?: string;
   }) => Promise<void>;
+  notice?: string;
 }) {
   const [mode, setMode] = useState<"login" | "signup" | "forgot" | "reset">("login");
   const [role, setRole] = useState<Role>("user");
@@ -43,6 +45,7 @@ export default function AuthScreen({
   const [info, setInfo] = useState("");
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
+  const shownInfo = info || (mode === "login" ? notice : "");
 
   useEffect(() => {
     setError("");
@@ -358,9 +361,9 @@ export default function AuthScreen({
                 </button>
               )}
 
-              {info && (
+              {shownInfo && (
                 <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
-                  {info}
+                  {shownInfo}
                 </div>
               )}
 
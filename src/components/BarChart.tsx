@@ -0,0 +1,82 @@
+export type Bar = { label: string; value: number; tone?: "default" | "warn" | "muted"; hint?: string };
+
+const width = 600;
+const height = 220;
+const pad = { top: 12, right: 12, bottom: 28, left: 36 };
+
+const toneClasses: Record<NonNullable<Bar["tone"]>, string> = {
+  default: "fill-brand-500",
+  warn: "fill-amber-500",
+  muted: "fill-ink-300"
+};
+
+export default function BarChart({
+  bars,
+  suffix = "",
+  markerLabel
+}: {
+  bars: Bar[];
+  suffix?: string;
+  // Draws a vertical reference line before the bar with this label (e.g. the cutoff).
+  markerLabel?: string;
+}) {
+  if (bars.length === 0 || bars.every((bar) => bar.value === 0)) {
+    return <p className="py-12 text-center text-sm text-ink-500">No data for this range.</p>;
+  }
+  const innerWidth = width - pad.left - pad.right;
+  const innerHeight = height - pad.top - pad.bottom;
+  const max = Math.max(...bars.map((bar) => bar.value), 1);
+  const slot = innerWidth / bars.length;
+  const barWidth = Math.max(2, slot * 0.7);
+  const labelEvery = Math.max(1, Math.ceil(bars.length / 12));
+  const markerIndex = markerLabel ? bars.findIndex((bar) => bar.label === markerLabel) : -1;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="h-auto w-full" role="img">
+      <line
+        x1={pad.left}
+        x2={width - pad.right}
+        y1={pad.top + innerHeight}
+        y2={pad.top + innerHeight}
+        className="stroke-ink-200"
+      />
+      <text x={pad.left - 6} y={pad.top + 8} textAnchor="end" className="fill-ink-400 text-[10px]">
+        {max}
+        {suffix}
+      </text>
+      {bars.map((bar, index) => {
+        const barHeight = (bar.value / max) * innerHeight;
+        const left = pad.left + index * slot + (slot - barWidth) / 2;
+        return (
+          <g key={bar.label}>
+            <rect
+              x={left}
+              y={pad.top + innerHeight - barHeight}
+              width={barWidth}
+              height={barHeight}
+              rx={3}
+              className={toneClasses[bar.tone ?? "default"]}
+            >
+              <title>{bar.hint ?? `${bar.label}: ${bar.value}${suffix}`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={left + barWidth / 2} y={height - 8} textAnchor="middle" className="fill-ink-500 text-[10px]">
+                {bar.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {markerIndex >= 0 && (
+        <line
+          x1={pad.left + markerIndex * slot}
+          x2={pad.left + markerIndex * slot}
+          y1={pad.top}
+          y2={pad.top + innerHeight}
+          strokeDasharray="4 4"
+          className="stroke-rose-500"
+        />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { signatureLabels, type AdminRow } from "../lib/adminRows";
+import { apiRequest } from "../lib/api";
+import { flagReasonLabels, flagStatusLabels } from "../lib/flags";
+import { formatDate, formatTime } from "../lib/format";
+import { riskLevel } from "../lib/locationRisk";
+import { formatMinutesLate } from "../lib/punctuality";
+import { verifyStamp, type StampVerification } from "../lib/stamp";
+import { flagCaseSchema, toFieldErrors } from "../lib/validation";
+import type { AuditEntry, FlagCase, FlagReason, FlagStatus } from "../types";
+import FlagCaseThread from "./FlagCaseThread";
+
+export default function CaptureDetailPanel({
+  token,
+  selected,
+  onFlagUpdated,
+  emptyLabel = "Select a row to preview"
+}: {
+  token: string | null;
+  selected: AdminRow | null;
+  onFlagUpdated: (flagCase: FlagCase) => void;
+  emptyLabel?: string;
+}) {
+  const [flagDraft, setFlagDraft] = useState("");
+  const [flagReason, setFlagReason] = useState<FlagReason>("other");
+  const [flagSaving, setFlagSaving] = useState(false);
+  const [flagError, setFlagError] = useState("");
+  const [flagHistory, setFlagHistory] = useState<AuditEntry[]>([]);
+  const [previewSide, setPreviewSide] = useState<"in" | "out">("in");
+  const [stampCheck, setStampCheck] = useState<StampVerification | null>(null);
+  const [verifyingStamp, setVerifyingStamp] = useState(false);
+
+  useEffect(() => {
+    setFlagDraft("");
+    setFlagReason("other");
+    setFlagError("");
+    setPreviewSide("in");
+  }, [selected?.id]);
+
+  // Status changes come from the audit trail; the conversation itself lives on the flag case.
+  const selectedRecordId = selected?.raw?.id;
+  const selectedFlagUpdatedAt = selected?.flag?.updatedAt;
+  useEffect(() => {
+    setFlagHistory([]);
+    if (!token || !selectedRecordId) {
+      return;
+    }
+    let active = true;
+    apiRequest<{ items: AuditEntry[] }>(
+      `/admin/audit?targetType=attendance&targetId=${selectedRecordId}&action=attendance.flag`,
+      { token }
+    )
+      .then((data) => {
+        if (active) {
+          setFlagHistory(data.items);
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setFlagHistory([]);
+        }
+      });
+
+    // A slower response for the previously selected capture must not land under this one.
+    return () => {
+      active = false;
+    };
+  }, [token, selectedRecordId, selectedFlagUpdatedAt]);
+
+  useEffect(() => {
+    setStampCheck(null);
+  }, [selected?.id, previewSide]);
+
+  const previewPhotoUrl = previewSide === "out" ? selected?.checkoutPhotoUrl : selected?.photoUrl;
+  const previewStamp = previewSide === "out" ? selected?.raw?.checkoutPhotoStamp : selected?.raw?.photoStamp;
+
+  const handleVerifyStamp = async () => {
+    const raw = selected?.raw;
+    if (!raw || !previewStamp || !previewPhotoUrl) {
+      return;
+    }
+    setVerifyingStamp(true);
+    try {
+      const record =
+        previewSide === "out"
+          ? { capturedAt: raw.checkedOutAt, latitude: raw.checkoutLatitude, longitude: raw.checkoutLongitude }
+          : { capturedAt: raw.capturedAt, latitude: raw.latitude, longitude: raw.longitude };
+      setStampCheck(await verifyStamp(previewPhotoUrl, previewStamp, record));
+    } catch {
+      setStampCheck({ status: "unavailable", message: "Unable to verify this photo." });
+    } finally {
+      setVerifyingStamp(false);
+    }
+  };
+
+  const handleFlagCreate = async () => {
+    if (!token || !selected?.raw) {
+      return;
+    }
+    const parsed = flagCaseSchema.safeParse({ reason: flagReason, comment: flagDraft });
+    if (!parsed.success) {
+      const { fieldErrors } = toFieldErrors(parsed.error);
+      setFlagError(fieldErrors.comment ?? fieldErrors.reason ?? "Comment is required to flag a check-in.");
+      return;
+    }
+    setFlagSaving(true);
+    setFlagError("");
+    try {
+      const flagCase = await apiRequest<FlagCase>(`/admin/attendance/${selected.raw.id}/flag`, {
+        method: "POST",
+        token,
+        body: parsed.data
+      });
+      onFlagUpdated(flagCase);
+      setFlagDraft("");
+    } catch (err) {
+      setFlagError(err instanceof Error ? err.message : "Unable to flag check-in.");
+    } finally {
+      setFlagSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-ink-900">Verified capture</h3>
+        {selected?.checkoutPhotoUrl && (
+          <div className="flex gap-2">
+            {(["in", "out"] as const).map((side) => (
+              <button
+                key={side}
+                className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                  previewSide === side ? "border-ink-900 bg-ink-900 text-white" : "border-ink-200 text-ink-600"
+                }`}
+                onClick={() => setPreviewSide(side)}
+                type="button"
+              >
+                {side === "in" ? "Check-in" : "Clock-out"}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="mt-4 flex w-full items-center justify-center overflow-hidden rounded-2xl border border-dashed border-ink-200 bg-ink-50 aspect-[3/4] max-h-[60vh] sm:aspect-[4/5] lg:aspect-[3/4] min-w-0">
+        {previewPhotoUrl ? (
+          <img src={previewPhotoUrl} alt={selected?.name} className="h-full w-full object-contain" />
+        ) : (
+          <span className="text-sm text-ink-500">{emptyLabel}</span>
+        )}
+      </div>
+      {previewPhotoUrl && (
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs">
+          {previewStamp ? (
+            <>
+              <span
+                className={`font-semibold ${
+                  stampCheck?.status === "verified"
+                    ? "text-emerald-700"
+                    : stampCheck && stampCheck.status !== "unavailable"
+                      ? "text-rose-700"
+                      : "text-ink-600"
+                }`}
+              >
+                {stampCheck?.message ?? `Stamp #${previewStamp.hash}`}
+              </span>
+              <button
+                className="rounded-full border border-ink-200 px-3 py-1 font-semibold text-ink-700 disabled:opacity-60"
+                onClick={handleVerifyStamp}
+                disabled={verifyingStamp}
+              >
+                {verifyingStamp ? "Verifying..." : "Verify stamp"}
+              </button>
+            </>
+          ) : (
+            <span className="text-ink-500">No verification stamp on this photo.</span>
+          )}
+        </div>
+      )}
+      <div className="mt-4 space-y-3 text-sm text-ink-600">
+        <div className="flex items-center justify-between">
+          <span>Employee</span>
+          <span className="font-semibold text-ink-900">{selected?.name ?? "--"}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Captured</span>
+          <span className="font-semibold text-ink-900">{selected?.time ?? "--"}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Checked out</span>
+          <span className="font-semibold text-ink-900">{selected?.checkoutTime ?? "--"}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Minutes late</span>
+          <span className="font-semibold text-ink-900">
+            {selected?.minutesLate ? formatMinutesLate(selected.minutesLate) : "--"}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Hours worked</span>
+          <span className="font-semibold text-ink-900">{selected?.workedHours ?? "--"}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Location</span>
+          <span className={`font-semibold ${selected?.outsideGeofence ? "text-rose-700" : "text-ink-900"}`}>
+            {selected && selected.siteDistance !== "--"
+              ? `${selected.location} (${selected.siteDistance})`
+              : selected?.location ?? "--"}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Liveness</span>
+          <span className="font-semibold text-ink-900">
+            {selected?.raw?.livenessPassed === undefined
+              ? "Not checked"
+              : `${selected.raw.livenessPassed ? "Passed" : "Failed"} (${Math.round(
+                  (selected.raw.livenessScore ?? 0) * 100
+                )}%)`}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Signature</span>
+          <span
+            className={`font-semibold ${
+              selected?.raw?.signatureStatus && selected.raw.signatureStatus !== "verified"
+                ? "text-rose-700"
+                : "text-ink-900"
+            }`}
+          >
+            {selected?.raw
+              ? selected.raw.signatureStatus
+                ? signatureLabels[selected.raw.signatureStatus].label
+                : "Unsigned"
+              : "--"}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Location risk</span>
+          <span
+            className={`font-semibold ${
+              selected?.riskScore !== undefined && riskLevel(selected.riskScore) === "high"
+                ? "text-rose-700"
+                : "text-ink-900"
+            }`}
+          >
+            {selected?.riskScore !== undefined ? `${selected.riskScore} (${riskLevel(selected.riskScore)})` : "--"}
+          </span>
+        </div>
+        {selected?.riskReasons && selected.riskReasons.length > 0 && (
+          <ul className="list-disc space-y-1 pl-5 text-xs text-ink-600">
+            {selected.riskReasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+        {selected?.locationDetail && (
+          <div className="flex items-center justify-between">
+            <span>GPS</span>
+            <span className="font-semibold text-ink-900">{selected.locationDetail}</span>
+          </div>
+        )}
+        {selected?.raw?.checkoutLocationLabel && (
+          <div className="flex items-center justify-between">
+            <span>Clock-out location</span>
+            <span className="font-semibold text-ink-900">{selected.raw.checkoutLocationLabel}</span>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <span>Flag status</span>
+          <span className="font-semibold text-ink-900">
+            {selected?.flag ? flagStatusLabels[selected.flag.status] : "Clear"}
+          </span>
+        </div>
+      </div>
+
+      {selected?.raw ? (
+        <div className="mt-6 space-y-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">Flag</p>
+          {selected.flag ? (
+            <FlagCaseThread token={token} flagCase={selected.flag} viewerRole="admin" onUpdated={onFlagUpdated} />
+          ) : (
+            <>
+              <select
+                className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={flagReason}
+                onChange={(event) => setFlagReason(event.target.value as FlagReason)}
+              >
+                {(Object.keys(flagReasonLabels) as FlagReason[]).map((reason) => (
+                  <option key={reason} value={reason}>
+                    {flagReasonLabels[reason]}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                className="min-h-[88px] w-full resize-none rounded-2xl border border-ink-200 px-4 py-3 text-sm text-ink-700 focus:border-ink-400"
+                placeholder="Describe the issue for this check-in. The employee will see this."
+                value={flagDraft}
+                onChange={(event) => setFlagDraft(event.target.value)}
+              />
+              {flagError && <p className="text-xs text-rose-600">{flagError}</p>}
+              <button
+                className="rounded-2xl bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+                onClick={handleFlagCreate}
+                disabled={flagSaving}
+              >
+                {flagSaving ? "Saving..." : "Flag check-in"}
+              </button>
+            </>
+          )}
+          {flagHistory.length > 0 && (
+            <div className="space-y-2 border-t border-ink-100 pt-3">
+              <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">Status history</p>
+              <ul className="space-y-2 text-xs text-ink-600">
+                {flagHistory.map((entry) => {
+                  const status = entry.after?.status;
+                  return (
+                    <li key={entry.id}>
+                      <span className="font-semibold text-ink-900">
+                        {typeof status === "string" && status in flagStatusLabels
+                          ? flagStatusLabels[status as FlagStatus]
+                          : "Flag updated"}
+                      </span>{" "}
+                      · {entry.actorName} · {formatDate(entry.createdAt)} {formatTime(entry.createdAt)}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <button className="mt-6 w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm font-semibold text-ink-700 transition hover:bg-ink-50" disabled>
+          Flag issue
+        </button>
+      )}
+    </div>
+  );
+}
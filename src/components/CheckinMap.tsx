@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useState } from "react";
+import type { AdminRow } from "../lib/adminRows";
+import { riskLevel } from "../lib/locationRisk";
+import {
+  clusterPoints,
+  fitZoom,
+  MAP_ATTRIBUTION,
+  MAP_TILE_URL,
+  MAX_ZOOM,
+  metersPerPixel,
+  MIN_ZOOM,
+  project,
+  TILE_SIZE,
+  tileUrl,
+  unproject
+} from "../lib/map";
+import type { OfficeSite } from "../types";
+
+const width = 640;
+const height = 400;
+
+type MapView = {
+  zoom: number;
+  center: { latitude: number; longitude: number };
+};
+
+type LocatedRow = AdminRow & { latitude: number; longitude: number; accuracyMeters?: number };
+
+function scaleBar(latitude: number, zoom: number) {
+  const meters = metersPerPixel(latitude, zoom) * 100;
+  const magnitude = 10 ** Math.floor(Math.log10(meters));
+  const nice = [5, 2, 1].map((step) => step * magnitude).find((value) => value <= meters) ?? magnitude;
+  return {
+    pixels: (nice / meters) * 100,
+    label: nice >= 1000 ? `${nice / 1000} km` : `${nice} m`
+  };
+}
+
+function isOutlier(row: AdminRow) {
+  return row.outsideGeofence || (row.riskScore !== undefined && riskLevel(row.riskScore) === "high");
+}
+
+export default function CheckinMap({
+  rows,
+  sites,
+  selectedId,
+  onSelect
+}: {
+  rows: AdminRow[];
+  sites: OfficeSite[];
+  selectedId?: string;
+  onSelect: (row: AdminRow) => void;
+}) {
+  const [view, setView] = useState<MapView | null>(null);
+  const [tileStatus, setTileStatus] = useState<"loading" | "ok" | "failed">(MAP_TILE_URL ? "loading" : "failed");
+
+  const located = useMemo(
+    () =>
+      rows.flatMap((row): LocatedRow[] =>
+        typeof row.raw?.latitude === "number" && typeof row.raw.longitude === "number"
+          ? [{ ...row, latitude: row.raw.latitude, longitude: row.raw.longitude, accuracyMeters: row.raw.accuracy }]
+          : []
+      ),
+    [rows]
+  );
+
+  // Sites the plotted check-ins belong to, or every active site on an empty day.
+  const shownSites = useMemo(() => {
+    const used = new Set(located.map((row) => row.siteId));
+    const active = sites.filter((site) => !site.archivedAt);
+    return located.length > 0 ? sites.filter((site) => used.has(site.id)) : active;
+  }, [located, sites]);
+
+  const fitted = useMemo((): MapView | null => {
+    const positions = [...located, ...shownSites];
+    if (positions.length === 0) {
+      return null;
+    }
+    const zoom = fitZoom(positions, width, height);
+    const points = positions.map((position) => project(position.latitude, position.longitude, zoom));
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const center = unproject(
+      { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 },
+      zoom
+    );
+    return { zoom, center };
+  }, [located, shownSites]);
+
+  // Re-fit only when the plotted area changes, not on every row refresh (e.g. after flagging).
+  const fittedKey = fitted ? `${fitted.zoom}|${fitted.center.latitude}|${fitted.center.longitude}` : "";
+  useEffect(() => {
+    setView(null);
+  }, [fittedKey]);
+
+  const active = view ?? fitted;
+
+  if (!active) {
+    return (
+      <div className="flex h-64 items-center justify-center rounded-2xl border border-dashed border-ink-200 bg-ink-50 text-sm text-ink-500">
+        No check-ins with coordinates for this day.
+      </div>
+    );
+  }
+
+  const { zoom } = active;
+  const centerPoint = project(active.center.latitude, active.center.longitude, zoom);
+  const origin = { x: centerPoint.x - width / 2, y: centerPoint.y - height / 2 };
+  const toScreen = (latitude: number, longitude: number) => {
+    const point = project(latitude, longitude, zoom);
+    return { x: point.x - origin.x, y: point.y - origin.y };
+  };
+  const pixelsFor = (meters: number, latitude: number) => meters / metersPerPixel(latitude, zoom);
+
+  const tileTemplate = tileStatus === "failed" ? null : MAP_TILE_URL;
+  const showTiles = tileTemplate !== null;
+  const tiles: { key: string; x: number; y: number; href: string }[] = [];
+  if (tileTemplate) {
+    const count = 2 ** zoom;
+    for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + width) / TILE_SIZE); tx += 1) {
+      for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + height) / TILE_SIZE); ty += 1) {
+        if (ty >= 0 && ty < count) {
+          tiles.push({
+            key: `${zoom}-${tx}-${ty}`,
+            x: tx * TILE_SIZE - origin.x,
+            y: ty * TILE_SIZE - origin.y,
+            href: tileUrl(tileTemplate, zoom, tx, ty)
+          });
+        }
+      }
+    }
+  }
+
+  const clusters = clusterPoints(located, (row) => toScreen(row.latitude, row.longitude));
+  const scale = scaleBar(active.center.latitude, zoom);
+  const topLeft = unproject(origin, zoom);
+  const bottomRight = unproject({ x: origin.x + width, y: origin.y + height }, zoom);
+  const zoomTo = (nextZoom: number, center = active.center) =>
+    setView({ zoom: Math.min(Math.max(nextZoom, MIN_ZOOM), MAX_ZOOM), center });
+
+  return (
+    <div className="space-y-2">
+      <div className="relative overflow-hidden rounded-2xl border border-ink-100">
+        <svg viewBox={`0 0 ${width} ${height}`} className="h-auto w-full bg-ink-50" role="img">
+          {showTiles ? (
+            tiles.map((tile) => (
+              <image
+                key={tile.key}
+                href={tile.href}
+                x={tile.x}
+                y={tile.y}
+                width={TILE_SIZE}
+                height={TILE_SIZE}
+                onLoad={() => setTileStatus("ok")}
+                onError={() => setTileStatus((current) => (current === "ok" ? current : "failed"))}
+              />
+            ))
+          ) : (
+            <g>
+              {Array.from({ length: Math.ceil(width / 80) + 1 }, (_, index) => (
+                <line
+                  key={`v-${index}`}
+                  x1={index * 80}
+                  x2={index * 80}
+                  y1={0}
+                  y2={height}
+                  className="stroke-ink-100"
+                />
+              ))}
+              {Array.from({ length: Math.ceil(height / 80) + 1 }, (_, index) => (
+                <line
+                  key={`h-${index}`}
+                  x1={0}
+                  x2={width}
+                  y1={index * 80}
+                  y2={index * 80}
+                  className="stroke-ink-100"
+                />
+              ))}
+              <text x={8} y={16} className="fill-ink-500 text-[10px]">
+                {topLeft.latitude.toFixed(4)}, {topLeft.longitude.toFixed(4)}
+              </text>
+              <text x={width - 8} y={height - 28} textAnchor="end" className="fill-ink-500 text-[10px]">
+                {bottomRight.latitude.toFixed(4)}, {bottomRight.longitude.toFixed(4)}
+              </text>
+            </g>
+          )}
+
+          {shownSites.map((site) => {
+            const point = toScreen(site.latitude, site.longitude);
+            return (
+              <g key={site.id}>
+                <circle
+                  cx={point.x}
+                  cy={point.y}
+                  r={pixelsFor(site.radiusMeters, site.latitude)}
+                  className="fill-brand-500/10 stroke-brand-600"
+                  strokeDasharray="6 4"
+                  strokeWidth={1.5}
+                />
+                <rect x={point.x - 6} y={point.y - 6} width={12} height={12} rx={2} className="fill-brand-600" />
+                <text x={point.x + 10} y={point.y + 4} className="fill-ink-900 text-[11px] font-semibold">
+                  {site.name}
+                </text>
+              </g>
+            );
+          })}
+
+          {located.map((row) => {
+            if (!row.accuracyMeters) {
+              return null;
+            }
+            const point = toScreen(row.latitude, row.longitude);
+            return (
+              <circle
+                key={`accuracy-${row.id}`}
+                cx={point.x}
+                cy={point.y}
+                r={Math.min(pixelsFor(row.accuracyMeters, row.latitude), width)}
+                className={isOutlier(row) ? "fill-rose-500/10 stroke-rose-400" : "fill-ink-900/5 stroke-ink-300"}
+              />
+            );
+          })}
+
+          {clusters.map((cluster) => {
+            if (cluster.items.length > 1) {
+              const outliers = cluster.items.filter(isOutlier).length;
+              const center = unproject({ x: cluster.x + origin.x, y: cluster.y + origin.y }, zoom);
+              return (
+                <g
+                  key={cluster.items.map((row) => row.id).join("|")}
+                  className="cursor-pointer"
+                  onClick={() => zoomTo(zoom + 2, center)}
+                >
+                  <title>
+                    {`${cluster.items.length} check-ins${outliers ? `, ${outliers} outside or high risk` : ""}`}
+                  </title>
+                  <circle
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={14}
+                    className={outliers ? "fill-rose-600 stroke-white" : "fill-ink-900 stroke-white"}
+                    strokeWidth={2}
+                  />
+                  <text
+                    x={cluster.x}
+                    y={cluster.y + 4}
+                    textAnchor="middle"
+                    className="fill-white text-[11px] font-semibold"
+                  >
+                    {cluster.items.length}
+                  </text>
+                </g>
+              );
+            }
+            const row = cluster.items[0];
+            const selected = row.id === selectedId;
+            return (
+              <g key={row.id} className="cursor-pointer" onClick={() => onSelect(row)}>
+                <title>
+                  {`${row.name} · ${row.time} · ${row.location}${row.accuracy !== "--" ? ` · ${row.accuracy}` : ""}`}
+                </title>
+                <circle
+                  cx={cluster.x}
+                  cy={cluster.y}
+                  r={selected ? 9 : 7}
+                  className={isOutlier(row) ? "fill-rose-600 stroke-white" : "fill-emerald-600 stroke-white"}
+                  strokeWidth={selected ? 3 : 2}
+                />
+                {selected && (
+                  <text x={cluster.x + 12} y={cluster.y + 4} className="fill-ink-900 text-[11px] font-semibold">
+                    {row.name}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          <g transform={`translate(12 ${height - 20})`}>
+            <line x1={0} x2={scale.pixels} y1={0} y2={0} className="stroke-ink-900" strokeWidth={2} />
+            <text x={scale.pixels + 6} y={4} className="fill-ink-900 text-[10px]">
+              {scale.label}
+            </text>
+          </g>
+          {showTiles && (
+            <text x={width - 8} y={height - 8} textAnchor="end" className="fill-ink-600 text-[9px]">
+              {MAP_ATTRIBUTION}
+            </text>
+          )}
+        </svg>
+        <div className="absolute right-3 top-3 flex flex-col gap-1">
+          <button
+            className="rounded-full bg-white px-3 py-1 text-xs font-semibold text-ink-700 shadow-soft disabled:opacity-60"
+            onClick={() => zoomTo(zoom + 1)}
+            disabled={zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+          >
+            +
+          </button>
+          <button
+            className="rounded-full bg-white px-3 py-1 text-xs font-semibold text-ink-700 shadow-soft disabled:opacity-60"
+            onClick={() => zoomTo(zoom - 1)}
+            disabled={zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+          >
+            −
+          </button>
+          {view && (
+            <button
+              className="rounded-full bg-white px-3 py-1 text-xs font-semibold text-ink-700 shadow-soft"
+              onClick={() => setView(null)}
+            >
+              Fit
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-ink-600">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-full bg-emerald-600" />
+          Check-in
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-full bg-rose-600" />
+          Outside site or high risk
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-brand-600" />
+          Office site
+        </span>
+        {!showTiles && (
+          <span className="text-ink-500">
+            {MAP_TILE_URL ? "Map tiles unavailable, showing coordinates only." : "Coordinate plot."}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
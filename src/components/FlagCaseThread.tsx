@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { apiRequest } from "../lib/api";
+import { flagReasonLabels, flagStatusLabels, flagStatusStyles, isFlagClosed } from "../lib/flags";
+import { formatDate, formatTime } from "../lib/format";
+import { flagMessageSchema, toFieldErrors } from "../lib/validation";
+import type { FlagCase, FlagStatus, Role } from "../types";
+
+export default function FlagCaseThread({
+  token,
+  flagCase,
+  viewerRole,
+  onUpdated
+}: {
+  token: string | null;
+  flagCase: FlagCase;
+  viewerRole: Role;
+  onUpdated: (flagCase: FlagCase) => void;
+}) {
+  const [reply, setReply] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const closed = isFlagClosed(flagCase.status);
+
+  const run = async (action: () => Promise<FlagCase>, fallback: string) => {
+    setSaving(true);
+    setError("");
+    try {
+      onUpdated(await action());
+      setReply("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReply = (dispute: boolean) => {
+    if (!token) {
+      return;
+    }
+    const parsed = flagMessageSchema.safeParse({ body: reply });
+    if (!parsed.success) {
+      setError(toFieldErrors(parsed.error).fieldErrors.body ?? "Write a reply");
+      return;
+    }
+    run(
+      () =>
+        apiRequest<FlagCase>(`/flags/${flagCase.id}/messages`, {
+          method: "POST",
+          token,
+          body: { body: parsed.data.body, dispute: dispute || undefined }
+        }),
+      "Unable to send reply."
+    );
+  };
+
+  const handleStatus = (status: FlagStatus) => {
+    if (!token) {
+      return;
+    }
+    run(
+      () =>
+        apiRequest<FlagCase>(`/admin/flags/${flagCase.id}`, {
+          method: "PUT",
+          token,
+          body: { status, comment: reply.trim() || undefined }
+        }),
+      "Unable to update flag."
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-ink-900">{flagReasonLabels[flagCase.reason]}</span>
+        <span className={`rounded-full px-3 py-1 text-xs font-semibold ${flagStatusStyles[flagCase.status]}`}>
+          {flagStatusLabels[flagCase.status]}
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {flagCase.messages.map((message) => (
+          <li
+            key={message.id}
+            className={`rounded-2xl px-3 py-2 text-sm ${
+              message.authorRole === "admin" ? "bg-ink-50 text-ink-800" : "bg-brand-50 text-ink-800"
+            }`}
+          >
+            <p className="text-xs text-ink-500">
+              <span className="font-semibold text-ink-700">{message.authorName}</span> · {formatDate(message.createdAt)}{" "}
+              {formatTime(message.createdAt)}
+            </p>
+            <p className="mt-1 whitespace-pre-line">{message.body}</p>
+          </li>
+        ))}
+      </ul>
+
+      {(!closed || viewerRole === "admin") && (
+        <textarea
+          className="min-h-[72px] w-full resize-none rounded-2xl border border-ink-200 px-4 py-3 text-sm text-ink-700 focus:border-ink-400"
+          placeholder={viewerRole === "admin" ? "Reply or add a resolution note" : "Explain what happened"}
+          value={reply}
+          onChange={(event) => setReply(event.target.value)}
+        />
+      )}
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {!closed && (
+          <button
+            className="rounded-2xl bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+            onClick={() => handleReply(false)}
+            disabled={saving}
+          >
+            {saving ? "Sending..." : "Reply"}
+          </button>
+        )}
+        {viewerRole === "user" && flagCase.status === "open" && (
+          <button
+            className="rounded-2xl border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700 disabled:opacity-60"
+            onClick={() => handleReply(true)}
+            disabled={saving}
+          >
+            Dispute
+          </button>
+        )}
+        {viewerRole === "admin" && !closed && (
+          <>
+            <button
+              className="rounded-2xl border border-emerald-300 px-4 py-2 text-sm font-semibold text-emerald-700 disabled:opacity-60"
+              onClick={() => handleStatus("resolved")}
+              disabled={saving}
+            >
+              Resolve
+            </button>
+            <button
+              className="rounded-2xl border border-rose-300 px-4 py-2 text-sm font-semibold text-rose-700 disabled:opacity-60"
+              onClick={() => handleStatus("upheld")}
+              disabled={saving}
+            >
+              Uphold
+            </button>
+          </>
+        )}
+        {viewerRole === "admin" && closed && (
+          <button
+            className="rounded-2xl border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700 disabled:opacity-60"
+            onClick={() => handleStatus("open")}
+            disabled={saving}
+          >
+            Reopen
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
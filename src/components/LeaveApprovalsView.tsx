@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { formatDate } from "../lib/format";
+import { formatLeaveRange, leaveDaysWithin, leaveStatusStyles, leaveTypeLabels } from "../lib/leave";
+import type { LeaveRequest, LeaveStatus } from "../types";
+
+type LeaveFilter = "pending" | "approved" | "rejected" | "all";
+
+const filters: { id: LeaveFilter; label: string }[] = [
+  { id: "pending", label: "Pending" },
+  { id: "approved", label: "Approved" },
+  { id: "rejected", label: "Rejected" },
+  { id: "all", label: "All" }
+];
+
+export default function LeaveApprovalsView({ token }: { token: string | null }) {
+  const [items, setItems] = useState<LeaveRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LeaveFilter>("pending");
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+    apiRequest<{ items: LeaveRequest[] }>(`/admin/leave${query}`, { token })
+      .then((data) => {
+        setItems(data.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load leave requests");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token, statusFilter]);
+
+  const handleReview = async (leave: LeaveRequest, status: Extract<LeaveStatus, "approved" | "rejected">) => {
+    if (!token) {
+      return;
+    }
+    setSavingId(leave.id);
+    setError("");
+    try {
+      const updated = await apiRequest<LeaveRequest>(`/admin/leave/${leave.id}`, {
+        method: "PUT",
+        token,
+        body: { status, reviewNote: reviewNotes[leave.id]?.trim() || undefined }
+      });
+      setItems((prev) =>
+        statusFilter === "all" || statusFilter === updated.status
+          ? prev.map((item) => (item.id === updated.id ? updated : item))
+          : prev.filter((item) => item.id !== updated.id)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update leave request.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Absence</p>
+          <h2 className="mt-2 text-3xl font-semibold text-ink-900">Leave requests</h2>
+          <p className="mt-2 text-ink-600">Approved leave shows as &quot;On leave&quot; instead of Missing.</p>
+        </div>
+        <div className="flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+          {filters.map((item) => (
+            <button
+              key={item.id}
+              className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
+                statusFilter === item.id ? "bg-ink-900 text-white" : "text-ink-600"
+              }`}
+              onClick={() => setStatusFilter(item.id)}
+              type="button"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-3xl bg-white p-6 shadow-soft">
+        {loading && <p className="text-sm text-ink-500">Loading leave requests...</p>}
+        {!loading && items.length === 0 && (
+          <p className="text-sm text-ink-500">No {statusFilter === "all" ? "" : `${statusFilter} `}requests.</p>
+        )}
+        <div className="space-y-3">
+          {items.map((leave) => (
+            <div key={leave.id} className="rounded-2xl border border-ink-100 p-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="font-semibold text-ink-900">{leave.userName}</p>
+                  <p className="mt-1 text-sm text-ink-600">
+                    {leaveTypeLabels[leave.type]} · {formatLeaveRange(leave)} ·{" "}
+                    {leaveDaysWithin(leave, leave.startDate, leave.endDate)} day(s)
+                  </p>
+                  {leave.note && <p className="mt-2 text-sm text-ink-700">{leave.note}</p>}
+                  <p className="mt-2 text-xs text-ink-500">
+                    Requested {formatDate(leave.createdAt)}
+                    {leave.reviewedAt &&
+                      ` · ${leave.status} ${formatDate(leave.reviewedAt)}${leave.reviewerName ? ` by ${leave.reviewerName}` : ""}`}
+                  </p>
+                </div>
+                <span className={`rounded-full px-3 py-1 text-xs font-semibold capitalize ${leaveStatusStyles[leave.status]}`}>
+                  {leave.status}
+                </span>
+              </div>
+              {leave.status === "pending" && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <input
+                    className="min-w-0 flex-1 rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                    placeholder="Note to employee (optional)"
+                    value={reviewNotes[leave.id] ?? ""}
+                    onChange={(event) => setReviewNotes((prev) => ({ ...prev, [leave.id]: event.target.value }))}
+                  />
+                  <button
+                    className="rounded-full border border-ink-200 px-4 py-2 text-xs font-semibold text-ink-700 disabled:opacity-60"
+                    onClick={() => handleReview(leave, "rejected")}
+                    disabled={savingId === leave.id}
+                  >
+                    Reject
+                  </button>
+                  <button
+                    className="rounded-full bg-ink-900 px-4 py-2 text-xs font-semibold text-white disabled:opacity-60"
+                    onClick={() => handleReview(leave, "approved")}
+                    disabled={savingId === leave.id}
+                  >
+                    {savingId === leave.id ? "Saving..." : "Approve"}
+                  </button>
+                </div>
+              )}
+              {leave.reviewNote && leave.status !== "pending" && (
+                <p className="mt-2 text-xs text-ink-500">Review note: {leave.reviewNote}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        {error && (
+          <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { formatLeaveRange, leaveStatusStyles, leaveTypeLabels } from "../lib/leave";
+import { leaveRequestSchema, toFieldErrors } from "../lib/validation";
+import type { LeaveRequest, LeaveType } from "../types";
+
+type LeaveDraft = {
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  note: string;
+};
+
+export default function LeaveRequestsPanel({ token }: { token: string | null }) {
+  const todayKey = new Date().toISOString().slice(0, 10);
+  const [items, setItems] = useState<LeaveRequest[]>([]);
+  const [draft, setDraft] = useState<LeaveDraft>({ type: "annual", startDate: todayKey, endDate: todayKey, note: "" });
+  const [formOpen, setFormOpen] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiRequest<{ items: LeaveRequest[] }>("/leave", { token })
+      .then((data) => {
+        setItems(data.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load leave requests");
+      });
+  }, [token]);
+
+  const updateDraft = (field: keyof LeaveDraft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!token) {
+      return;
+    }
+    const parsed = leaveRequestSchema.safeParse(draft);
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    setFieldErrors({});
+    try {
+      const created = await apiRequest<LeaveRequest>("/leave", { method: "POST", token, body: parsed.data });
+      setItems((prev) => [created, ...prev]);
+      setDraft({ type: "annual", startDate: todayKey, endDate: todayKey, note: "" });
+      setFormOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to submit leave request.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (leave: LeaveRequest) => {
+    if (!token) {
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      const updated = await apiRequest<LeaveRequest>(`/leave/${leave.id}/cancel`, { method: "PUT", token });
+      setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to cancel leave request.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl bg-white p-6 shadow-soft">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-ink-900">Leave</h3>
+        <button
+          className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700"
+          onClick={() => {
+            setFormOpen((open) => !open);
+            setFieldErrors({});
+          }}
+        >
+          {formOpen ? "Close" : "Request leave"}
+        </button>
+      </div>
+
+      {formOpen && (
+        <div className="mt-4 space-y-3">
+          <select
+            className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={draft.type}
+            onChange={(event) => updateDraft("type", event.target.value)}
+          >
+            {(Object.keys(leaveTypeLabels) as LeaveType[]).map((type) => (
+              <option key={type} value={type}>
+                {leaveTypeLabels[type]}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">From</label>
+              <input
+                type="date"
+                className="mt-1 w-full rounded-2xl border border-ink-200 px-3 py-2 text-sm text-ink-700"
+                value={draft.startDate}
+                onChange={(event) => updateDraft("startDate", event.target.value)}
+              />
+              {fieldErrors.startDate && <p className="mt-1 text-xs text-rose-600">{fieldErrors.startDate}</p>}
+            </div>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">To</label>
+              <input
+                type="date"
+                className="mt-1 w-full rounded-2xl border border-ink-200 px-3 py-2 text-sm text-ink-700"
+                value={draft.endDate}
+                onChange={(event) => updateDraft("endDate", event.target.value)}
+              />
+              {fieldErrors.endDate && <p className="mt-1 text-xs text-rose-600">{fieldErrors.endDate}</p>}
+            </div>
+          </div>
+          <textarea
+            className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm text-ink-700"
+            rows={2}
+            placeholder="Note for your manager (optional)"
+            value={draft.note}
+            onChange={(event) => updateDraft("note", event.target.value)}
+          />
+          {fieldErrors.note && <p className="text-xs text-rose-600">{fieldErrors.note}</p>}
+          <button
+            className="w-full rounded-2xl bg-ink-900 px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+            onClick={handleSubmit}
+            disabled={saving || !token}
+          >
+            {saving ? "Submitting..." : "Submit request"}
+          </button>
+        </div>
+      )}
+
+      <ul className="mt-4 space-y-3">
+        {items.length === 0 && <li className="text-sm text-ink-500">No leave requests yet.</li>}
+        {items.map((leave) => (
+          <li key={leave.id} className="rounded-2xl border border-ink-100 p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-semibold text-ink-900">{leaveTypeLabels[leave.type]}</span>
+              <span className={`rounded-full px-2 py-1 text-xs font-semibold capitalize ${leaveStatusStyles[leave.status]}`}>
+                {leave.status}
+              </span>
+            </div>
+            <p className="mt-1 text-ink-600">{formatLeaveRange(leave)}</p>
+            {leave.reviewNote && <p className="mt-1 text-xs text-ink-500">“{leave.reviewNote}”</p>}
+            {leave.status === "pending" && (
+              <button
+                className="mt-2 text-xs font-semibold text-rose-600 disabled:opacity-60"
+                onClick={() => handleCancel(leave)}
+                disabled={saving}
+              >
+                Cancel request
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
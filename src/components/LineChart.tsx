@@ -0,0 +1,62 @@
+export type LinePoint = { label: string; value: number };
+
+const width = 600;
+const height = 220;
+const pad = { top: 12, right: 12, bottom: 28, left: 36 };
+
+export default function LineChart({
+  points,
+  max = 100,
+  suffix = "%"
+}: {
+  points: LinePoint[];
+  max?: number;
+  suffix?: string;
+}) {
+  if (points.length === 0) {
+    return <p className="py-12 text-center text-sm text-ink-500">No data for this range.</p>;
+  }
+  const innerWidth = width - pad.left - pad.right;
+  const innerHeight = height - pad.top - pad.bottom;
+  const x = (index: number) =>
+    pad.left + (points.length === 1 ? innerWidth / 2 : (index / (points.length - 1)) * innerWidth);
+  const y = (value: number) => pad.top + innerHeight - (Math.min(value, max) / max) * innerHeight;
+  // Thin out x labels so they never overlap.
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((ratio) => Math.round(max * ratio));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="h-auto w-full" role="img">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(tick)} y2={y(tick)} className="stroke-ink-100" />
+          <text x={pad.left - 6} y={y(tick) + 4} textAnchor="end" className="fill-ink-400 text-[10px]">
+            {tick}
+            {suffix}
+          </text>
+        </g>
+      ))}
+      <polyline
+        fill="none"
+        className="stroke-brand-500"
+        strokeWidth={2}
+        points={points.map((point, index) => `${x(index)},${y(point.value)}`).join(" ")}
+      />
+      {points.map((point, index) => (
+        <g key={point.label}>
+          <circle cx={x(index)} cy={y(point.value)} r={3.5} className="fill-brand-600">
+            <title>
+              {point.label}: {point.value}
+              {suffix}
+            </title>
+          </circle>
+          {index % labelEvery === 0 && (
+            <text x={x(index)} y={height - 8} textAnchor="middle" className="fill-ink-500 text-[10px]">
+              {point.label}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,398 @@
+import { useEffect, useMemo, useState } from "react";
+import { absenceRow, attendanceRow, type AdminRow } from "../lib/adminRows";
+import { apiRequest } from "../lib/api";
+import { defaultWorkCalendar } from "../lib/calendar";
+import { formatTime } from "../lib/format";
+import { evaluateRecords, monthDates, shiftMonth, type HistoryDay } from "../lib/history";
+import { findLeaveOn, leaveTypeLabels } from "../lib/leave";
+import { buildMatrix, columnTotals, weekDates } from "../lib/matrix";
+import { defaultLatenessPolicy } from "../lib/punctuality";
+import { emptyShiftSchedule } from "../lib/shifts";
+import type {
+  AttendanceRecord,
+  FlagCase,
+  LatenessPolicy,
+  LeaveRequest,
+  OfficeSite,
+  RosterUser,
+  ShiftSchedule,
+  Team,
+  WorkCalendar
+} from "../types";
+import CaptureDetailPanel from "./CaptureDetailPanel";
+import { CalendarLegend, dayKindStyles } from "./MonthCalendar";
+
+type MatrixResponse = {
+  items: AttendanceRecord[];
+  users: RosterUser[];
+  leave?: LeaveRequest[];
+  cutoffTime?: string;
+  latenessPolicy?: LatenessPolicy;
+};
+
+type MatrixPeriod = "week" | "month";
+
+const shortLabels: Partial<Record<HistoryDay["kind"], string>> = {
+  absent: "Absent",
+  leave: "Leave",
+  off: "Off"
+};
+
+function shiftDate(date: string, days: number) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function columnLabel(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "short", timeZone: "UTC" });
+}
+
+export default function MatrixView({ token }: { token: string | null }) {
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [period, setPeriod] = useState<MatrixPeriod>("week");
+  const [anchor, setAnchor] = useState(todayKey);
+  const [teamFilter, setTeamFilter] = useState("all");
+  const [data, setData] = useState<MatrixResponse | null>(null);
+  const [calendar, setCalendar] = useState<WorkCalendar>(defaultWorkCalendar);
+  const [shifts, setShifts] = useState<ShiftSchedule>(emptyShiftSchedule);
+  const [sites, setSites] = useState<OfficeSite[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [selected, setSelected] = useState<{ userId: string; date: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const dates = useMemo(
+    () => (period === "week" ? weekDates(anchor) : monthDates(anchor.slice(0, 7))),
+    [period, anchor]
+  );
+  const start = dates[0];
+  const end = dates[dates.length - 1];
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiRequest<WorkCalendar>("/admin/calendar", { token })
+      .then((response) => {
+        setCalendar(response);
+      })
+      .catch(() => {
+        setCalendar(defaultWorkCalendar);
+      });
+    apiRequest<ShiftSchedule>("/admin/shifts", { token })
+      .then((response) => {
+        setShifts(response);
+      })
+      .catch(() => {
+        setShifts(emptyShiftSchedule);
+      });
+    apiRequest<{ items: OfficeSite[] }>("/admin/sites?includeArchived=true", { token })
+      .then((response) => {
+        setSites(response.items);
+      })
+      .catch(() => {
+        setSites([]);
+      });
+    apiRequest<{ items: Team[] }>("/admin/teams", { token })
+      .then((response) => {
+        setTeams(response.items);
+      })
+      .catch(() => {
+        setTeams([]);
+      });
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    apiRequest<MatrixResponse>(`/admin/analytics/attendance?start=${start}&end=${end}`, { token })
+      .then((response) => {
+        setData(response);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load attendance");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token, start, end]);
+
+  const context = useMemo(
+    () => ({
+      calendar,
+      shifts,
+      sites,
+      cutoffTime: data?.cutoffTime ?? "08:00",
+      latenessPolicy: data?.latenessPolicy ?? defaultLatenessPolicy
+    }),
+    [calendar, shifts, sites, data]
+  );
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const approvedLeave = useMemo(() => (data?.leave ?? []).filter((entry) => entry.status === "approved"), [data]);
+  const evaluations = useMemo(() => evaluateRecords(items, context), [items, context]);
+  const rows = useMemo(() => {
+    const users = (data?.users ?? []).filter((user) => teamFilter === "all" || user.teamId === teamFilter);
+    return buildMatrix(users, dates, items, evaluations, approvedLeave, context, todayKey);
+  }, [data, teamFilter, dates, items, evaluations, approvedLeave, context, todayKey]);
+  const totals = useMemo(() => columnTotals(rows, dates), [rows, dates]);
+
+  // The detail panel takes the same row shape as the daily overview.
+  const selectedRow = useMemo((): AdminRow | null => {
+    const row = rows.find((entry) => entry.user.id === selected?.userId);
+    const day = row?.days.find((entry) => entry.date === selected?.date);
+    if (!row || !day || day.kind === "upcoming") {
+      return null;
+    }
+    if (day.record) {
+      return attendanceRow(day.record, day.date, context, row.user.teamId);
+    }
+    const leaveEntry = day.kind === "leave" ? findLeaveOn(approvedLeave, row.user.id, day.date) : undefined;
+    const absence = leaveEntry
+      ? absenceRow(row.user, "On leave", leaveTypeLabels[leaveEntry.type])
+      : absenceRow(row.user, day.kind === "off" ? "Day off" : "Missing", day.kind === "off" ? day.label : "--");
+    return { ...absence, id: `${absence.id}-${day.date}` };
+  }, [rows, selected, context, approvedLeave]);
+
+  const applyFlagCase = (flagCase: FlagCase) => {
+    setData((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((item) => (item.id === flagCase.attendanceId ? { ...item, flag: flagCase } : item))
+          }
+        : prev
+    );
+  };
+
+  const move = (delta: number) => {
+    setSelected(null);
+    setAnchor((current) =>
+      period === "week" ? shiftDate(current, delta * 7) : `${shiftMonth(current.slice(0, 7), delta)}-01`
+    );
+  };
+
+  const rangeLabel =
+    period === "week"
+      ? `${start} to ${end}`
+      : new Date(`${start}T00:00:00Z`).toLocaleDateString("en-US", {
+          month: "long",
+          year: "numeric",
+          timeZone: "UTC"
+        });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">{rangeLabel}</p>
+          <h2 className="mt-2 text-3xl font-semibold text-ink-900">Attendance matrix</h2>
+          <p className="mt-2 text-ink-600">Every employee against every day, with arrival times and totals.</p>
+        </div>
+        <div className="flex flex-col gap-3">
+          <div className="flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+            {(["week", "month"] as const).map((item) => (
+              <button
+                key={item}
+                className={`rounded-full px-3 py-1 text-xs font-semibold capitalize transition ${
+                  period === item ? "bg-ink-900 text-white" : "text-ink-600"
+                }`}
+                onClick={() => {
+                  setPeriod(item);
+                  setSelected(null);
+                }}
+                type="button"
+              >
+                {item}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700"
+              onClick={() => move(-1)}
+              aria-label={`Previous ${period}`}
+            >
+              ←
+            </button>
+            <button
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700"
+              onClick={() => {
+                setAnchor(todayKey);
+                setSelected(null);
+              }}
+            >
+              Today
+            </button>
+            <button
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700"
+              onClick={() => move(1)}
+              aria-label={`Next ${period}`}
+            >
+              →
+            </button>
+            <select
+              className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+              value={teamFilter}
+              onChange={(event) => setTeamFilter(event.target.value)}
+            >
+              <option value="all">All teams</option>
+              {[...teams]
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,0.6fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-semibold text-ink-900">Employees by day</h3>
+            <CalendarLegend />
+          </div>
+          <div className="mt-4 max-h-[70vh] overflow-auto rounded-2xl border border-ink-100">
+            <table className="w-full border-separate border-spacing-0 text-left text-xs">
+              <thead className="text-[10px] uppercase tracking-[0.2em] text-ink-500">
+                <tr>
+                  <th className="sticky left-0 top-0 z-20 bg-ink-50 px-3 py-2">Employee</th>
+                  {dates.map((date) => (
+                    <th key={date} className="sticky top-0 z-10 bg-ink-50 px-1 py-2 text-center">
+                      <span className="block">{columnLabel(date)}</span>
+                      <span className="block text-ink-900">{Number(date.slice(8))}</span>
+                    </th>
+                  ))}
+                  <th className="sticky top-0 z-10 bg-ink-50 px-2 py-2 text-center" title="On time">
+                    On time
+                  </th>
+                  <th className="sticky top-0 z-10 bg-ink-50 px-2 py-2 text-center" title="Late or very late">
+                    Late
+                  </th>
+                  <th className="sticky top-0 z-10 bg-ink-50 px-2 py-2 text-center">Absent</th>
+                  <th className="sticky top-0 z-10 bg-ink-50 px-2 py-2 text-center">Leave</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.user.id}>
+                    <th className="sticky left-0 z-10 whitespace-nowrap border-t border-ink-100 bg-white px-3 py-2 text-sm font-semibold text-ink-900">
+                      {row.user.name}
+                    </th>
+                    {row.days.map((day) => {
+                      const active = selected?.userId === row.user.id && selected.date === day.date;
+                      const arrival = day.record ? formatTime(day.record.capturedAt, day.record.timezone) : null;
+                      return (
+                        <td key={day.date} className="border-t border-ink-100 p-0.5">
+                          <button
+                            className={`relative flex h-10 w-full min-w-[3.25rem] flex-col items-center justify-center rounded-lg font-semibold transition disabled:cursor-default ${
+                              dayKindStyles[day.kind]
+                            } ${active ? "ring-2 ring-ink-900" : ""}`}
+                            onClick={() => setSelected({ userId: row.user.id, date: day.date })}
+                            disabled={day.kind === "upcoming"}
+                            title={`${row.user.name} · ${day.date} · ${day.label}${
+                              arrival ? ` · in ${arrival}` : ""
+                            }`}
+                            type="button"
+                          >
+                            <span>{arrival ?? shortLabels[day.kind] ?? ""}</span>
+                            {arrival && <span className="text-[9px] font-normal">{day.label}</span>}
+                            {day.record?.flag && (
+                              <span className="absolute right-1 top-1 h-1.5 w-1.5 rounded-full bg-rose-600" />
+                            )}
+                          </button>
+                        </td>
+                      );
+                    })}
+                    <td className="border-t border-ink-100 px-2 text-center text-sm text-emerald-700">
+                      {row.totals.onTime}
+                    </td>
+                    <td className="border-t border-ink-100 px-2 text-center text-sm text-amber-700">
+                      {row.totals.late}
+                    </td>
+                    <td className="border-t border-ink-100 px-2 text-center text-sm text-rose-700">
+                      {row.totals.absent}
+                    </td>
+                    <td className="border-t border-ink-100 px-2 text-center text-sm text-brand-700">
+                      {row.totals.leave}
+                    </td>
+                  </tr>
+                ))}
+                {!loading && rows.length === 0 && (
+                  <tr>
+                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={dates.length + 5}>
+                      Nobody to show for this period.
+                    </td>
+                  </tr>
+                )}
+                {loading && (
+                  <tr>
+                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={dates.length + 5}>
+                      Loading attendance...
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+              {rows.length > 0 && (
+                <tfoot className="text-ink-600">
+                  {(
+                    [
+                      { key: "onTime", label: "On time", style: "text-emerald-700" },
+                      { key: "late", label: "Late", style: "text-amber-700" },
+                      { key: "absent", label: "Absent", style: "text-rose-700" }
+                    ] as const
+                  ).map((line, index) => (
+                    <tr key={line.key}>
+                      <th
+                        className={`sticky left-0 z-10 bg-ink-50 px-3 py-1 text-[10px] uppercase tracking-[0.2em] text-ink-500 ${
+                          index === 0 ? "border-t border-ink-200" : ""
+                        }`}
+                      >
+                        {line.label}
+                      </th>
+                      {totals.map((column) => (
+                        <td
+                          key={column.date}
+                          className={`bg-ink-50 px-1 py-1 text-center font-semibold ${line.style} ${
+                            index === 0 ? "border-t border-ink-200" : ""
+                          }`}
+                        >
+                          {column[line.key] || ""}
+                        </td>
+                      ))}
+                      <td
+                        className={`bg-ink-50 px-2 py-1 text-center font-semibold ${line.style} ${
+                          index === 0 ? "border-t border-ink-200" : ""
+                        }`}
+                        colSpan={4}
+                      >
+                        {totals.reduce((sum, column) => sum + column[line.key], 0)}
+                      </td>
+                    </tr>
+                  ))}
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+
+        <CaptureDetailPanel
+          token={token}
+          selected={selectedRow}
+          onFlagUpdated={applyFlagCase}
+          emptyLabel={selectedRow ? "No photo for this day" : "Select a cell to preview"}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { formatTime } from "../lib/format";
+import type { DayKind, HistoryDay } from "../lib/history";
+
+export const dayKindStyles: Record<DayKind, string> = {
+  "on-time": "bg-emerald-100 text-emerald-800",
+  late: "bg-amber-100 text-amber-800",
+  "very-late": "bg-orange-200 text-orange-900",
+  absent: "bg-rose-100 text-rose-700",
+  leave: "bg-brand-100 text-brand-800",
+  off: "bg-ink-50 text-ink-400",
+  upcoming: "bg-white text-ink-400 border border-ink-100"
+};
+
+const legend: { kind: DayKind; label: string }[] = [
+  { kind: "on-time", label: "On time" },
+  { kind: "late", label: "Late" },
+  { kind: "very-late", label: "Very late" },
+  { kind: "absent", label: "Absent" },
+  { kind: "leave", label: "On leave" },
+  { kind: "off", label: "Day off" }
+];
+
+const weekHeader = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export function CalendarLegend() {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-ink-600">
+      {legend.map((item) => (
+        <span key={item.kind} className="flex items-center gap-1">
+          <span className={`h-3 w-3 rounded ${dayKindStyles[item.kind]}`} />
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function dayTitle(day: HistoryDay) {
+  const arrival = day.record ? ` · in ${formatTime(day.record.capturedAt, day.record.timezone)}` : "";
+  return `${day.date} · ${day.label}${arrival}`;
+}
+
+export default function MonthCalendar({
+  days,
+  selectedDate,
+  onSelect,
+  compact = false
+}: {
+  days: HistoryDay[];
+  selectedDate?: string | null;
+  onSelect?: (day: HistoryDay) => void;
+  compact?: boolean;
+}) {
+  // Pad the first row so the 1st lands under its weekday (Monday-first).
+  const leading = days.length > 0 ? (new Date(`${days[0].date}T00:00:00Z`).getUTCDay() + 6) % 7 : 0;
+
+  return (
+    <div>
+      {!compact && (
+        <div className="mb-2 grid grid-cols-7 gap-1 text-center text-[10px] uppercase tracking-[0.2em] text-ink-500">
+          {weekHeader.map((label) => (
+            <span key={label}>{label}</span>
+          ))}
+        </div>
+      )}
+      <div className={`grid grid-cols-7 ${compact ? "gap-0.5" : "gap-1"}`}>
+        {Array.from({ length: leading }, (_, index) => (
+          <span key={`blank-${index}`} />
+        ))}
+        {days.map((day) => (
+          <button
+            key={day.date}
+            className={`flex aspect-square flex-col items-center justify-center font-semibold transition ${
+              compact ? "rounded text-[0px]" : "rounded-xl text-xs"
+            } ${dayKindStyles[day.kind]} ${selectedDate === day.date ? "ring-2 ring-ink-900" : ""}`}
+            onClick={() => onSelect?.(day)}
+            title={dayTitle(day)}
+            aria-label={dayTitle(day)}
+            type="button"
+          >
+            {Number(day.date.slice(8))}
+            {!compact && day.record?.flag && <span className="mt-0.5 h-1.5 w-1.5 rounded-full bg-rose-600" />}
+          </button>
+        ))}
+      </div>
+      {!compact && (
+        <div className="mt-3">
+          <CalendarLegend />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { isFlagClosed } from "../lib/flags";
+import { formatDate, formatTime } from "../lib/format";
+import type { FlagCase } from "../types";
+import FlagCaseThread from "./FlagCaseThread";
+
+export default function MyFlagsPanel({ token }: { token: string | null }) {
+  const [items, setItems] = useState<FlagCase[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiRequest<{ items: FlagCase[] }>("/flags", { token })
+      .then((data) => {
+        setItems(data.items);
+        setExpandedId(data.items.find((item) => !isFlagClosed(item.status))?.id ?? null);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load flags");
+      });
+  }, [token]);
+
+  // Nothing to show until an admin has flagged one of this employee's check-ins.
+  if (items.length === 0 && !error) {
+    return null;
+  }
+
+  const openCount = items.filter((item) => !isFlagClosed(item.status)).length;
+
+  return (
+    <div className="rounded-3xl bg-white p-6 shadow-soft">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-ink-900">Flagged check-ins</h3>
+        {openCount > 0 && (
+          <span className="rounded-full bg-rose-100 px-3 py-1 text-xs font-semibold text-rose-700">
+            {openCount} open
+          </span>
+        )}
+      </div>
+      <ul className="mt-4 space-y-3">
+        {items.map((flagCase) => (
+          <li key={flagCase.id} className="rounded-2xl border border-ink-100 p-3">
+            <button
+              className="flex w-full items-center justify-between gap-2 text-left text-sm"
+              onClick={() => setExpandedId((current) => (current === flagCase.id ? null : flagCase.id))}
+            >
+              <span className="font-semibold text-ink-900">
+                {formatDate(flagCase.capturedAt)} · {formatTime(flagCase.capturedAt)}
+              </span>
+              <span className="text-xs text-ink-500">{expandedId === flagCase.id ? "Hide" : "View"}</span>
+            </button>
+            {expandedId === flagCase.id && (
+              <div className="mt-3">
+                <FlagCaseThread
+                  token={token}
+                  flagCase={flagCase}
+                  viewerRole="user"
+                  onUpdated={(updated) =>
+                    setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+                  }
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {error && (
+        <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
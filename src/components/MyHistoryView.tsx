@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { defaultWorkCalendar } from "../lib/calendar";
+import { downloadFile } from "../lib/download";
+import { flagReasonLabels, flagStatusLabels, flagStatusStyles } from "../lib/flags";
+import { formatTime, formatWorkedHours, getWorkedMinutes } from "../lib/format";
+import { buildMonthDays, evaluateRecords, summarizeHistory, type HistoryDay } from "../lib/history";
+import { defaultLatenessPolicy, formatMinutesLate } from "../lib/punctuality";
+import { emptyShiftSchedule } from "../lib/shifts";
+import type {
+  AttendanceRecord,
+  FlagCase,
+  LatenessPolicy,
+  LeaveRequest,
+  OfficeSite,
+  ShiftSchedule,
+  WorkCalendar
+} from "../types";
+import FlagCaseThread from "./FlagCaseThread";
+import MonthCalendar from "./MonthCalendar";
+
+type MyHistoryResponse = {
+  month: string;
+  items: AttendanceRecord[];
+  leave?: LeaveRequest[];
+  calendar?: WorkCalendar;
+  shifts?: ShiftSchedule;
+  sites?: OfficeSite[];
+  cutoffTime: string;
+  latenessPolicy?: LatenessPolicy;
+};
+
+export default function MyHistoryView({ token, userId }: { token: string | null; userId: string }) {
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [month, setMonth] = useState(todayKey.slice(0, 7));
+  const [data, setData] = useState<MyHistoryResponse | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!token || !/^\d{4}-\d{2}$/.test(month)) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    setSelectedDate(null);
+    let active = true;
+    apiRequest<MyHistoryResponse>(`/attendance/history?month=${month}`, { token })
+      .then((response) => {
+        if (active) {
+          setData(response);
+        }
+      })
+      .catch((err) => {
+        if (active) {
+          setError(err instanceof Error ? err.message : "Unable to load your history");
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setLoading(false);
+        }
+      });
+
+    // A slower response for the previously picked month must not replace this one.
+    return () => {
+      active = false;
+    };
+  }, [token, month]);
+
+  const context = useMemo(
+    () => ({
+      calendar: data?.calendar ?? defaultWorkCalendar,
+      shifts: data?.shifts ?? emptyShiftSchedule,
+      sites: data?.sites ?? [],
+      cutoffTime: data?.cutoffTime ?? "08:00",
+      latenessPolicy: data?.latenessPolicy ?? defaultLatenessPolicy
+    }),
+    [data]
+  );
+
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const evaluations = useMemo(() => evaluateRecords(items, context), [items, context]);
+  const stats = useMemo(() => summarizeHistory(items, evaluations), [items, evaluations]);
+  const days = useMemo(
+    () =>
+      buildMonthDays(
+        userId,
+        month,
+        items,
+        evaluations,
+        (data?.leave ?? []).filter((entry) => entry.status === "approved"),
+        context,
+        todayKey
+      ),
+    [userId, month, items, evaluations, data, context, todayKey]
+  );
+  const absentDays = days.filter((day) => day.kind === "absent").length;
+  const flagged = items.filter((item): item is AttendanceRecord & { flag: FlagCase } => Boolean(item.flag));
+  const selectedDay = days.find((day) => day.date === selectedDate) ?? null;
+
+  const updateFlag = (flagCase: FlagCase) => {
+    setData((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((item) => (item.id === flagCase.attendanceId ? { ...item, flag: flagCase } : item))
+          }
+        : prev
+    );
+  };
+
+  const handleExport = async () => {
+    if (!token) {
+      return;
+    }
+    setExporting(true);
+    setError("");
+    try {
+      await downloadFile(
+        `/attendance/export?month=${month}&workingDaysOnly=true`,
+        token,
+        `my-attendance-${month}.xlsx`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Your record</p>
+          <h2 className="mt-2 text-3xl font-semibold text-ink-900">My history</h2>
+          <p className="mt-2 text-ink-600">Check-ins, punctuality and flags for the month.</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="month"
+            className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={month}
+            max={todayKey.slice(0, 7)}
+            onChange={(event) => setMonth(event.target.value)}
+          />
+          <button
+            className="rounded-full border border-ink-900 px-4 py-2 text-sm font-semibold text-ink-900 disabled:opacity-60"
+            onClick={handleExport}
+            disabled={exporting || !token}
+          >
+            {exporting ? "Exporting..." : "Download month"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        <div className="rounded-3xl bg-white p-5 shadow-soft">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Punctuality</p>
+          <p className="mt-3 text-3xl font-semibold text-ink-900">{stats.punctualityRate}%</p>
+          <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-ink-100">
+            <div className="h-full bg-emerald-500" style={{ width: `${stats.punctualityRate}%` }}></div>
+          </div>
+        </div>
+        <div className="rounded-3xl bg-white p-5 shadow-soft">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">On time</p>
+          <p className="mt-3 text-3xl font-semibold text-ink-900">{stats.onTime}</p>
+          <p className="mt-2 text-sm text-ink-500">of {stats.total} working days</p>
+        </div>
+        <div className="rounded-3xl bg-white p-5 shadow-soft">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Late</p>
+          <p className="mt-3 text-3xl font-semibold text-ink-900">{stats.late}</p>
+          <p className="mt-2 text-sm text-ink-500">{formatWorkedHours(stats.minutesLate)} in total</p>
+        </div>
+        <div className="rounded-3xl bg-white p-5 shadow-soft">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Absent</p>
+          <p className="mt-3 text-3xl font-semibold text-ink-900">{absentDays}</p>
+          <p className="mt-2 text-sm text-ink-500">working days without a check-in</p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1.1fr)_minmax(0,0.9fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft">
+          <h3 className="text-lg font-semibold text-ink-900">Calendar</h3>
+          <div className="mt-4">
+            {loading ? (
+              <p className="text-sm text-ink-500">Loading month...</p>
+            ) : (
+              <MonthCalendar
+                days={days}
+                selectedDate={selectedDate}
+                onSelect={(day: HistoryDay) => setSelectedDate(day.date)}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="rounded-3xl bg-white p-6 shadow-soft">
+            <h3 className="text-lg font-semibold text-ink-900">
+              {selectedDay
+                ? new Date(`${selectedDay.date}T00:00:00Z`).toLocaleDateString("en-US", {
+                    weekday: "long",
+                    month: "short",
+                    day: "numeric",
+                    timeZone: "UTC"
+                  })
+                : "Day details"}
+            </h3>
+            {!selectedDay && <p className="mt-2 text-sm text-ink-500">Pick a day on the calendar.</p>}
+            {selectedDay && (
+              <div className="mt-4 space-y-3 text-sm text-ink-600">
+                <div className="flex items-center justify-between">
+                  <span>Status</span>
+                  <span className="font-semibold text-ink-900">{selectedDay.label}</span>
+                </div>
+                {selectedDay.record && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span>Checked in</span>
+                      <span className="font-semibold text-ink-900">
+                        {formatTime(selectedDay.record.capturedAt, selectedDay.record.timezone)}{" "}
+                        {formatMinutesLate(evaluations.get(selectedDay.record.id)?.minutesLate ?? 0)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Checked out</span>
+                      <span className="font-semibold text-ink-900">
+                        {selectedDay.record.checkedOutAt
+                          ? formatTime(selectedDay.record.checkedOutAt, selectedDay.record.timezone)
+                          : "--"}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Hours worked</span>
+                      <span className="font-semibold text-ink-900">
+                        {formatWorkedHours(
+                          getWorkedMinutes(selectedDay.record.capturedAt, selectedDay.record.checkedOutAt)
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Location</span>
+                      <span className="font-semibold text-ink-900">
+                        {selectedDay.record.siteName ?? selectedDay.record.locationLabel}
+                      </span>
+                    </div>
+                    {selectedDay.record.flag && (
+                      <div className="border-t border-ink-100 pt-3">
+                        <FlagCaseThread
+                          token={token}
+                          flagCase={selectedDay.record.flag}
+                          viewerRole="user"
+                          onUpdated={updateFlag}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-3xl bg-white p-6 shadow-soft">
+            <h3 className="text-lg font-semibold text-ink-900">Flags this month</h3>
+            <ul className="mt-4 space-y-2 text-sm">
+              {flagged.length === 0 && <li className="text-ink-500">No flags this month.</li>}
+              {flagged.map((item) => (
+                <li key={item.id}>
+                  <button
+                    className="flex w-full items-center justify-between gap-2 rounded-2xl border border-ink-100 px-3 py-2 text-left"
+                    onClick={() => setSelectedDate(evaluations.get(item.id)?.date ?? null)}
+                  >
+                    <span className="text-ink-700">
+                      {evaluations.get(item.id)?.date} · {flagReasonLabels[item.flag.reason]}
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-semibold ${flagStatusStyles[item.flag.status]}`}
+                    >
+                      {flagStatusLabels[item.flag.status]}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+    </div>
+  );
+}
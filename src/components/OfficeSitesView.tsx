@@ -0,0 +1,421 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { apiRequest } from "../lib/api";
+import { getDeviceLocation } from "../lib/location";
+import { officeSiteSchema, toFieldErrors } from "../lib/validation";
+import type { GeofenceMode, OfficeSite } from "../types";
+
+type SitesResponse = {
+  items: OfficeSite[];
+  geofenceMode?: GeofenceMode;
+};
+
+type SiteDraft = {
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  radiusMeters: string;
+  timezone: string;
+  cutoffTime: string;
+};
+
+const emptyDraft: SiteDraft = {
+  name: "",
+  address: "",
+  latitude: "",
+  longitude: "",
+  radiusMeters: "150",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC",
+  cutoffTime: "08:00"
+};
+
+export default function OfficeSitesView({ token }: { token: string | null }) {
+  const [sites, setSites] = useState<OfficeSite[]>([]);
+  const [geofenceMode, setGeofenceMode] = useState<GeofenceMode>("warn");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SiteDraft>(emptyDraft);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    apiRequest<SitesResponse>("/admin/sites?includeArchived=true", { token })
+      .then((data) => {
+        setSites(data.items);
+        setGeofenceMode(data.geofenceMode ?? "warn");
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load office sites");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token]);
+
+  const visibleSites = useMemo(
+    () =>
+      sites
+        .filter((site) => showArchived || !site.archivedAt)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [sites, showArchived]
+  );
+  const archivedCount = sites.filter((site) => site.archivedAt).length;
+
+  const updateDraft = (field: keyof SiteDraft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setFieldErrors({});
+  };
+
+  const handleEdit = (site: OfficeSite) => {
+    setEditingId(site.id);
+    setFieldErrors({});
+    setError("");
+    setDraft({
+      name: site.name,
+      address: site.address,
+      latitude: String(site.latitude),
+      longitude: String(site.longitude),
+      radiusMeters: String(site.radiusMeters),
+      timezone: site.timezone,
+      cutoffTime: site.cutoffTime
+    });
+  };
+
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    setError("");
+    try {
+      const result = await getDeviceLocation();
+      setDraft((prev) => ({
+        ...prev,
+        latitude: result.latitude.toFixed(6),
+        longitude: result.longitude.toFixed(6)
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read location.");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!token) {
+      return;
+    }
+    const parsed = officeSiteSchema.safeParse({
+      ...draft,
+      latitude: toNumber(draft.latitude),
+      longitude: toNumber(draft.longitude),
+      radiusMeters: toNumber(draft.radiusMeters)
+    });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    setFieldErrors({});
+    try {
+      const site = await apiRequest<OfficeSite>(editingId ? `/admin/sites/${editingId}` : "/admin/sites", {
+        method: editingId ? "PUT" : "POST",
+        token,
+        body: parsed.data
+      });
+      setSites((prev) => (editingId ? prev.map((item) => (item.id === site.id ? site : item)) : [...prev, site]));
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save office site.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (site: OfficeSite, archived: boolean) => {
+    if (!token) {
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      const updated = await apiRequest<OfficeSite>(`/admin/sites/${site.id}/archive`, {
+        method: "PUT",
+        token,
+        body: { archived }
+      });
+      setSites((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      if (editingId === site.id) {
+        resetForm();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update office site.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleModeChange = async (mode: GeofenceMode) => {
+    if (!token || mode === geofenceMode) {
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      const data = await apiRequest<{ geofenceMode: GeofenceMode }>("/admin/settings", {
+        method: "PUT",
+        token,
+        body: { geofenceMode: mode }
+      });
+      setGeofenceMode(data.geofenceMode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update geofence mode.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-soft md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Branches</p>
+          <h2 className="mt-2 text-3xl font-semibold text-ink-900">Office sites</h2>
+          <p className="mt-2 text-ink-600">
+            Check-ins are matched to the nearest active site and judged against its radius and cutoff.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 rounded-full bg-ink-50 p-1">
+          {(["warn", "block"] as const).map((mode) => (
+            <button
+              key={mode}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition disabled:opacity-60 ${
+                geofenceMode === mode ? "bg-ink-900 text-white" : "text-ink-600"
+              }`}
+              onClick={() => handleModeChange(mode)}
+              disabled={saving}
+              type="button"
+            >
+              {mode === "warn" ? "Warn outside" : "Block outside"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,0.6fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-semibold text-ink-900">All sites</h3>
+            <label className="flex items-center gap-2 text-xs font-semibold text-ink-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(event) => setShowArchived(event.target.checked)}
+              />
+              Show archived ({archivedCount})
+            </label>
+          </div>
+
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-ink-100">
+            <table className="min-w-[760px] w-full text-left text-sm">
+              <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
+                <tr>
+                  <th className="px-4 py-3">Site</th>
+                  <th className="px-4 py-3">Coordinates</th>
+                  <th className="px-4 py-3">Radius</th>
+                  <th className="px-4 py-3">Timezone</th>
+                  <th className="px-4 py-3">Cutoff</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleSites.map((site) => (
+                  <tr
+                    key={site.id}
+                    className={`border-t border-ink-100 ${editingId === site.id ? "bg-ink-50" : ""} ${
+                      site.archivedAt ? "text-ink-400" : ""
+                    }`}
+                  >
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-ink-900">{site.name}</span>
+                        {site.archivedAt && (
+                          <span className="rounded-full bg-ink-100 px-2 py-1 text-xs font-semibold text-ink-600">
+                            Archived
+                          </span>
+                        )}
+                      </div>
+                      {site.address && <p className="mt-1 text-xs text-ink-500">{site.address}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-ink-600">
+                      {site.latitude.toFixed(5)}, {site.longitude.toFixed(5)}
+                    </td>
+                    <td className="px-4 py-3 text-ink-600">{site.radiusMeters}m</td>
+                    <td className="px-4 py-3 text-ink-600">{site.timezone}</td>
+                    <td className="px-4 py-3 text-ink-600">{site.cutoffTime}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {!site.archivedAt && (
+                          <button
+                            className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700 disabled:opacity-60"
+                            onClick={() => handleEdit(site)}
+                            disabled={saving}
+                          >
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          className="rounded-full border border-ink-200 px-3 py-1 text-xs font-semibold text-ink-700 disabled:opacity-60"
+                          onClick={() => handleArchive(site, !site.archivedAt)}
+                          disabled={saving}
+                        >
+                          {site.archivedAt ? "Restore" : "Archive"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {!loading && visibleSites.length === 0 && (
+                  <tr>
+                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={6}>
+                      No office sites yet. Check-ins are accepted from any location.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {error && (
+            <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+          <h3 className="text-lg font-semibold text-ink-900">{editingId ? "Edit site" : "New site"}</h3>
+          <div className="mt-4 space-y-4">
+            <SiteField label="Name" error={fieldErrors.name}>
+              <input
+                className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                value={draft.name}
+                onChange={(event) => updateDraft("name", event.target.value)}
+                placeholder="Head office"
+              />
+            </SiteField>
+            <SiteField label="Address" error={fieldErrors.address}>
+              <input
+                className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                value={draft.address}
+                onChange={(event) => updateDraft("address", event.target.value)}
+                placeholder="Street, city"
+              />
+            </SiteField>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <SiteField label="Latitude" error={fieldErrors.latitude}>
+                <input
+                  className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                  inputMode="decimal"
+                  value={draft.latitude}
+                  onChange={(event) => updateDraft("latitude", event.target.value)}
+                />
+              </SiteField>
+              <SiteField label="Longitude" error={fieldErrors.longitude}>
+                <input
+                  className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                  inputMode="decimal"
+                  value={draft.longitude}
+                  onChange={(event) => updateDraft("longitude", event.target.value)}
+                />
+              </SiteField>
+            </div>
+            <button
+              className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-xs font-semibold text-ink-700 transition hover:bg-ink-50 disabled:opacity-60"
+              onClick={handleUseMyLocation}
+              disabled={locating || saving}
+            >
+              {locating ? "Locating..." : "Use my current location"}
+            </button>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <SiteField label="Radius (m)" error={fieldErrors.radiusMeters}>
+                <input
+                  className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                  inputMode="numeric"
+                  value={draft.radiusMeters}
+                  onChange={(event) => updateDraft("radiusMeters", event.target.value)}
+                />
+              </SiteField>
+              <SiteField label="Cutoff" error={fieldErrors.cutoffTime}>
+                <input
+                  type="time"
+                  className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                  value={draft.cutoffTime}
+                  onChange={(event) => updateDraft("cutoffTime", event.target.value)}
+                />
+              </SiteField>
+            </div>
+            <SiteField label="Timezone" error={fieldErrors.timezone}>
+              <input
+                className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm outline-none focus:border-ink-400"
+                value={draft.timezone}
+                onChange={(event) => updateDraft("timezone", event.target.value)}
+                placeholder="Africa/Lagos"
+              />
+            </SiteField>
+            <div className="flex flex-wrap gap-2">
+              <button
+                className="rounded-2xl bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+                onClick={handleSave}
+                disabled={saving || !token}
+              >
+                {saving ? "Saving..." : editingId ? "Save changes" : "Add site"}
+              </button>
+              {editingId && (
+                <button
+                  className="rounded-2xl border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700 disabled:opacity-60"
+                  onClick={resetForm}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SiteField({
+  label,
+  error,
+  children
+}: {
+  label: string;
+  error?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div>
+      <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">{label}</label>
+      <div className="mt-2">{children}</div>
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
+
+function toNumber(value: string) {
+  return value.trim() === "" ? Number.NaN : Number(value);
+}
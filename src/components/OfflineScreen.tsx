@@ -0,0 +1,48 @@
+import { formatDate, formatTime } from "../lib/format";
+import { readLastStatus } from "../lib/lastStatus";
+
+export default function OfflineScreen() {
+  const lastStatus = readLastStatus();
+  const attendance = lastStatus?.attendance;
+  const statusLabel = !lastStatus
+    ? "No status saved on this device today"
+    : attendance?.checkedOutAt
+      ? `Checked out at ${formatTime(attendance.checkedOutAt, attendance.timezone)}`
+      : attendance
+        ? `Checked in at ${formatTime(attendance.capturedAt, attendance.timezone)}`
+        : "Not checked in";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4">
+      <div className="w-full max-w-md rounded-3xl bg-white p-6 shadow-soft">
+        <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Offline</p>
+        <h1 className="mt-2 text-2xl font-semibold text-ink-900">You&#39;re not connected</h1>
+        <p className="mt-2 text-sm text-ink-600">
+          FRIS Clock-In needs a connection to load this page. Your last known status is shown below.
+        </p>
+
+        <div className="mt-6 rounded-2xl border border-ink-100 bg-ink-50 p-4">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Last known status</p>
+          <p className="mt-3 text-lg font-semibold text-ink-900">{statusLabel}</p>
+          {lastStatus && (
+            <p className="mt-2 text-sm text-ink-600">
+              {lastStatus.userName} · saved {formatDate(lastStatus.savedAt)} at {formatTime(lastStatus.savedAt)}
+            </p>
+          )}
+          {lastStatus && lastStatus.pendingSync > 0 && (
+            <p className="mt-2 text-sm font-semibold text-amber-700">
+              {lastStatus.pendingSync} capture{lastStatus.pendingSync === 1 ? "" : "s"} waiting to sync.
+            </p>
+          )}
+        </div>
+
+        <button
+          className="mt-6 w-full rounded-2xl bg-ink-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-ink-800"
+          onClick={() => window.location.reload()}
+        >
+          Try again
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { formatDate } from "../lib/format";
+import { roleLabels, userStatus, userStatusStyles } from "../lib/people";
+import { teamName } from "../lib/teams";
+import { inviteSchema, toFieldErrors } from "../lib/validation";
+import type { Role, RosterUser, Team, UserStatus } from "../types";
+
+type PeopleFilter = UserStatus | "all";
+
+type InviteDraft = {
+  name: string;
+  email: string;
+  role: Role;
+  teamId: string;
+};
+
+const filters: { id: PeopleFilter; label: string }[] = [
+  { id: "active", label: "Active" },
+  { id: "invited", label: "Invited" },
+  { id: "deactivated", label: "Deactivated" },
+  { id: "all", label: "All" }
+];
+
+const emptyInvite: InviteDraft = { name: "", email: "", role: "user", teamId: "" };
+
+export default function PeopleView({ token, currentUserId }: { token: string | null; currentUserId?: string }) {
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [users, setUsers] = useState<RosterUser[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PeopleFilter>("active");
+  const [search, setSearch] = useState("");
+  const [invite, setInvite] = useState<InviteDraft>(emptyInvite);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [deactivating, setDeactivating] = useState<{ userId: string; endDate: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    Promise.all([
+      apiRequest<{ items: RosterUser[] }>("/admin/users?includeInactive=true", { token }),
+      apiRequest<{ items: Team[] }>("/admin/teams", { token }).catch(() => ({ items: [] as Team[] }))
+    ])
+      .then(([userData, teamData]) => {
+        setUsers(userData.items);
+        setTeams(teamData.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load people");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token]);
+
+  const visibleUsers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return users
+      .filter((user) => statusFilter === "all" || userStatus(user) === statusFilter)
+      .filter(
+        (user) => !query || user.name.toLowerCase().includes(query) || user.email.toLowerCase().includes(query)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [users, statusFilter, search]);
+
+  const replaceUser = (updated: RosterUser) => {
+    setUsers((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  };
+
+  const run = async (id: string, action: () => Promise<void>, fallback: string) => {
+    setSavingId(id);
+    setError("");
+    setNotice("");
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleInvite = () => {
+    if (!token) {
+      return;
+    }
+    const parsed = inviteSchema.safeParse({ ...invite, teamId: invite.teamId || undefined });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setFieldErrors({});
+    run(
+      "invite",
+      async () => {
+        const created = await apiRequest<RosterUser>("/admin/invites", { method: "POST", token, body: parsed.data });
+        setUsers((prev) => [...prev, created]);
+        setInvite(emptyInvite);
+        setNotice(`Invite sent to ${created.email}.`);
+      },
+      "Unable to send invite."
+    );
+  };
+
+  const handleResend = (user: RosterUser) => {
+    if (!token) {
+      return;
+    }
+    run(
+      user.id,
+      async () => {
+        replaceUser(await apiRequest<RosterUser>(`/admin/invites/${user.id}/resend`, { method: "POST", token }));
+        setNotice(`Invite re-sent to ${user.email}.`);
+      },
+      "Unable to resend invite."
+    );
+  };
+
+  const handleRoleChange = (user: RosterUser, role: Role) => {
+    if (!token || role === user.role) {
+      return;
+    }
+    run(
+      user.id,
+      async () => {
+        replaceUser(
+          await apiRequest<RosterUser>(`/admin/users/${user.id}/role`, { method: "PUT", token, body: { role } })
+        );
+      },
+      "Unable to change role."
+    );
+  };
+
+  const handleDeactivate = () => {
+    if (!token || !deactivating) {
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(deactivating.endDate)) {
+      setError("Choose an end date.");
+      return;
+    }
+    const { userId, endDate } = deactivating;
+    run(
+      userId,
+      async () => {
+        replaceUser(
+          await apiRequest<RosterUser>(`/admin/users/${userId}/deactivate`, {
+            method: "PUT",
+            token,
+            body: { endDate }
+          })
+        );
+        setDeactivating(null);
+      },
+      "Unable to deactivate user."
+    );
+  };
+
+  const handleReactivate = (user: RosterUser) => {
+    if (!token) {
+      return;
+    }
+    run(
+      user.id,
+      async () => {
+        replaceUser(await apiRequest<RosterUser>(`/admin/users/${user.id}/reactivate`, { method: "PUT", token }));
+      },
+      "Unable to reactivate user."
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-3xl bg-white p-6 shadow-soft">
+        <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Roster</p>
+        <h2 className="mt-2 text-3xl font-semibold text-ink-900">People</h2>
+        <p className="mt-2 text-ink-600">
+          Invite staff, change roles, and deactivate people who have left. Deactivated users can no longer sign in and
+          are not counted as missing from their end date.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,0.6fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <input
+              className="min-w-0 flex-1 rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+              placeholder="Search name or email"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+            <div className="flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+              {filters.map((item) => (
+                <button
+                  key={item.id}
+                  className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
+                    statusFilter === item.id ? "bg-ink-900 text-white" : "text-ink-600"
+                  }`}
+                  onClick={() => setStatusFilter(item.id)}
+                  type="button"
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-ink-100">
+            <table className="w-full min-w-[640px] text-left text-sm">
+              <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
+                <tr>
+                  <th className="px-4 py-3">Name</th>
+                  <th className="px-4 py-3">Team</th>
+                  <th className="px-4 py-3">Role</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {visibleUsers.map((user) => {
+                  const status = userStatus(user);
+                  const busy = savingId === user.id;
+                  const isSelf = user.id === currentUserId;
+                  return (
+                    <tr key={user.id} className="border-t border-ink-100 align-top">
+                      <td className="px-4 py-3">
+                        <p className="font-semibold text-ink-900">{user.name}</p>
+                        <p className="text-xs text-ink-500">{user.email}</p>
+                      </td>
+                      <td className="px-4 py-3 text-ink-600">{teamName(user.teamId, teams)}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700 disabled:opacity-60"
+                          value={user.role ?? "user"}
+                          onChange={(event) => handleRoleChange(user, event.target.value as Role)}
+                          disabled={busy || isSelf || status === "deactivated"}
+                          title={isSelf ? "You can't change your own role" : undefined}
+                        >
+                          {(Object.keys(roleLabels) as Role[]).map((role) => (
+                            <option key={role} value={role}>
+                              {roleLabels[role]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`rounded-full px-3 py-1 text-xs font-semibold capitalize ${userStatusStyles[status]}`}>
+                          {status}
+                        </span>
+                        {user.endDate && <p className="mt-2 text-xs text-ink-500">Ends {user.endDate}</p>}
+                        {status === "invited" && user.invitedAt && (
+                          <p className="mt-2 text-xs text-ink-500">Sent {formatDate(user.invitedAt)}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {status === "invited" && (
+                          <button
+                            className="text-xs font-semibold text-ink-700 disabled:opacity-60"
+                            onClick={() => handleResend(user)}
+                            disabled={busy}
+                          >
+                            Resend invite
+                          </button>
+                        )}
+                        {status === "active" && !isSelf && deactivating?.userId !== user.id && (
+                          <button
+                            className="text-xs font-semibold text-rose-600 disabled:opacity-60"
+                            onClick={() => setDeactivating({ userId: user.id, endDate: todayKey })}
+                            disabled={busy}
+                          >
+                            Deactivate
+                          </button>
+                        )}
+                        {deactivating?.userId === user.id && (
+                          <div className="flex flex-wrap items-center justify-end gap-2">
+                            <input
+                              type="date"
+                              className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+                              value={deactivating.endDate}
+                              onChange={(event) => setDeactivating({ userId: user.id, endDate: event.target.value })}
+                            />
+                            <button
+                              className="rounded-full bg-rose-600 px-3 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                              onClick={handleDeactivate}
+                              disabled={busy}
+                            >
+                              {busy ? "Saving..." : "Confirm"}
+                            </button>
+                            <button
+                              className="text-xs font-semibold text-ink-600"
+                              onClick={() => setDeactivating(null)}
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        )}
+                        {status === "deactivated" && (
+                          <button
+                            className="text-xs font-semibold text-ink-700 disabled:opacity-60"
+                            onClick={() => handleReactivate(user)}
+                            disabled={busy}
+                          >
+                            Reactivate
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {!loading && visibleUsers.length === 0 && (
+                  <tr>
+                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={5}>
+                      No people match this view.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="rounded-3xl bg-white p-6 shadow-soft">
+          <h3 className="text-lg font-semibold text-ink-900">Invite someone</h3>
+          <p className="mt-1 text-sm text-ink-600">They get an email link to set a password.</p>
+          <div className="mt-4 space-y-3">
+            <input
+              className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+              placeholder="Full name"
+              value={invite.name}
+              onChange={(event) => setInvite((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            {fieldErrors.name && <p className="text-xs text-rose-600">{fieldErrors.name}</p>}
+            <input
+              type="email"
+              className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+              placeholder="name@company.com"
+              value={invite.email}
+              onChange={(event) => setInvite((prev) => ({ ...prev, email: event.target.value }))}
+            />
+            {fieldErrors.email && <p className="text-xs text-rose-600">{fieldErrors.email}</p>}
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                className="rounded-2xl border border-ink-200 px-3 py-2 text-sm text-ink-700"
+                value={invite.role}
+                onChange={(event) => setInvite((prev) => ({ ...prev, role: event.target.value as Role }))}
+              >
+                {(Object.keys(roleLabels) as Role[]).map((role) => (
+                  <option key={role} value={role}>
+                    {roleLabels[role]}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="rounded-2xl border border-ink-200 px-3 py-2 text-sm text-ink-700"
+                value={invite.teamId}
+                onChange={(event) => setInvite((prev) => ({ ...prev, teamId: event.target.value }))}
+              >
+                <option value="">No team</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              className="w-full rounded-2xl bg-ink-900 px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+              onClick={handleInvite}
+              disabled={savingId === "invite" || !token}
+            >
+              {savingId === "invite" ? "Sending..." : "Send invite"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {notice && (
+        <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { formatDate, formatTime } from "../lib/format";
+import { findTemplate, reminderTemplates, renderReminder } from "../lib/reminders";
+import { reminderScheduleSchema, reminderSchema, toFieldErrors } from "../lib/validation";
+import type { Reminder, ReminderDeliveryStatus, ReminderSchedule, RosterUser } from "../types";
+
+type ReminderTab = "compose" | "schedule" | "history";
+
+const tabs: { id: ReminderTab; label: string }[] = [
+  { id: "compose", label: "Send now" },
+  { id: "schedule", label: "Automatic" },
+  { id: "history", label: "History" }
+];
+
+const deliveryStyles: Record<ReminderDeliveryStatus, string> = {
+  queued: "bg-ink-100 text-ink-700",
+  sent: "bg-amber-100 text-amber-800",
+  delivered: "bg-emerald-100 text-emerald-800",
+  failed: "bg-rose-100 text-rose-700"
+};
+
+const defaultSchedule: ReminderSchedule = {
+  enabled: false,
+  minutesBefore: 15,
+  templateId: reminderTemplates[0].id,
+  message: reminderTemplates[0].body
+};
+
+export default function ReminderDialog({
+  token,
+  absentUsers,
+  cutoffTime,
+  onClose
+}: {
+  token: string | null;
+  absentUsers: RosterUser[];
+  cutoffTime: string;
+  onClose: () => void;
+}) {
+  const [tab, setTab] = useState<ReminderTab>("compose");
+  const [recipientIds, setRecipientIds] = useState<string[]>(() => absentUsers.map((user) => user.id));
+  const [templateId, setTemplateId] = useState(reminderTemplates[0].id);
+  const [message, setMessage] = useState(reminderTemplates[0].body);
+  const [schedule, setSchedule] = useState<ReminderSchedule>(defaultSchedule);
+  const [minutesDraft, setMinutesDraft] = useState(String(defaultSchedule.minutesBefore));
+  const [history, setHistory] = useState<Reminder[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiRequest<ReminderSchedule>("/admin/reminders/schedule", { token })
+      .then((data) => {
+        setSchedule(data);
+        setMinutesDraft(String(data.minutesBefore));
+      })
+      .catch(() => {
+        setSchedule(defaultSchedule);
+      });
+  }, [token]);
+
+  useEffect(() => {
+    if (!token || tab !== "history") {
+      return;
+    }
+    setHistoryLoading(true);
+    apiRequest<{ items: Reminder[] }>("/admin/reminders", { token })
+      .then((data) => {
+        setHistory(data.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load reminder history");
+      })
+      .finally(() => {
+        setHistoryLoading(false);
+      });
+  }, [token, tab]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const switchTab = (next: ReminderTab) => {
+    setTab(next);
+    setError("");
+    setNotice("");
+    setFieldErrors({});
+  };
+
+  const toggleRecipient = (userId: string) => {
+    setRecipientIds((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = findTemplate(id);
+    if (template.body) {
+      setMessage(template.body);
+    }
+  };
+
+  const handleScheduleTemplateChange = (id: string) => {
+    const template = findTemplate(id);
+    setSchedule((prev) => ({ ...prev, templateId: id, message: template.body || prev.message }));
+  };
+
+  const handleSend = async () => {
+    if (!token) {
+      return;
+    }
+    const parsed = reminderSchema.safeParse({ userIds: recipientIds, templateId, message });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    setNotice("");
+    setFieldErrors({});
+    try {
+      const reminder = await apiRequest<Reminder>("/admin/reminders", {
+        method: "POST",
+        token,
+        body: parsed.data
+      });
+      setHistory((prev) => [reminder, ...prev]);
+      setNotice(`Reminder queued for ${reminder.recipients.length} employee(s).`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to send reminder.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!token) {
+      return;
+    }
+    const parsed = reminderScheduleSchema.safeParse({
+      ...schedule,
+      minutesBefore: minutesDraft.trim() === "" ? Number.NaN : Number(minutesDraft)
+    });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    setNotice("");
+    setFieldErrors({});
+    try {
+      const saved = await apiRequest<ReminderSchedule>("/admin/reminders/schedule", {
+        method: "PUT",
+        token,
+        body: parsed.data
+      });
+      setSchedule(saved);
+      setMinutesDraft(String(saved.minutesBefore));
+      setNotice(saved.enabled ? "Automatic reminders are on." : "Automatic reminders are off.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save reminder schedule.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewName = absentUsers.find((user) => recipientIds.includes(user.id))?.name ?? "there";
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-ink-900/40 p-4"
+      onClick={onClose}
+      role="presentation"
+    >
+      <div
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-3xl bg-white p-6 shadow-soft"
+        onClick={(event) => event.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Send reminder"
+      >
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Reminders</p>
+            <h3 className="mt-2 text-2xl font-semibold text-ink-900">Nudge missing check-ins</h3>
+          </div>
+          <button className="rounded-full px-3 py-1 text-sm font-semibold text-ink-500" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <div className="mt-4 flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+          {tabs.map((item) => (
+            <button
+              key={item.id}
+              className={`rounded-full px-4 py-2 text-sm font-semibold transition ${
+                tab === item.id ? "bg-ink-900 text-white" : "text-ink-600"
+              }`}
+              onClick={() => switchTab(item.id)}
+              type="button"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === "compose" && (
+          <div className="mt-5 space-y-4">
+            <div>
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
+                  Recipients ({recipientIds.length}/{absentUsers.length})
+                </p>
+                {absentUsers.length > 0 && (
+                  <button
+                    className="text-xs font-semibold text-ink-600"
+                    onClick={() =>
+                      setRecipientIds(
+                        recipientIds.length === absentUsers.length ? [] : absentUsers.map((user) => user.id)
+                      )
+                    }
+                  >
+                    {recipientIds.length === absentUsers.length ? "Clear all" : "Select all"}
+                  </button>
+                )}
+              </div>
+              {absentUsers.length === 0 ? (
+                <p className="mt-2 text-sm text-ink-500">Everyone has checked in.</p>
+              ) : (
+                <div className="mt-2 grid max-h-48 gap-2 overflow-y-auto sm:grid-cols-2">
+                  {absentUsers.map((user) => (
+                    <label
+                      key={user.id}
+                      className="flex items-center gap-2 rounded-2xl border border-ink-100 px-3 py-2 text-sm text-ink-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={recipientIds.includes(user.id)}
+                        onChange={() => toggleRecipient(user.id)}
+                      />
+                      <span className="truncate">{user.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {fieldErrors.userIds && <p className="mt-2 text-xs text-rose-600">{fieldErrors.userIds}</p>}
+            </div>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">Template</label>
+              <select
+                className="mt-2 w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={templateId}
+                onChange={(event) => handleTemplateChange(event.target.value)}
+              >
+                {reminderTemplates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">Message</label>
+              <textarea
+                className="mt-2 w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm text-ink-700"
+                rows={3}
+                value={message}
+                onChange={(event) => setMessage(event.target.value)}
+              />
+              {fieldErrors.message && <p className="mt-1 text-xs text-rose-600">{fieldErrors.message}</p>}
+              <p className="mt-1 text-xs text-ink-500">
+                Preview: {renderReminder(message, { name: previewName, cutoff: cutoffTime })}
+              </p>
+            </div>
+            <button
+              className="rounded-full bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+              onClick={handleSend}
+              disabled={saving || !token || recipientIds.length === 0}
+            >
+              {saving ? "Sending..." : `Send to ${recipientIds.length}`}
+            </button>
+          </div>
+        )}
+
+        {tab === "schedule" && (
+          <div className="mt-5 space-y-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-ink-700">
+              <input
+                type="checkbox"
+                checked={schedule.enabled}
+                onChange={(event) => setSchedule((prev) => ({ ...prev, enabled: event.target.checked }))}
+              />
+              Remind anyone not checked in before cutoff
+            </label>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
+                Minutes before cutoff
+              </label>
+              <input
+                type="number"
+                min={5}
+                max={240}
+                className="mt-2 w-32 rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={minutesDraft}
+                onChange={(event) => setMinutesDraft(event.target.value)}
+              />
+              {fieldErrors.minutesBefore && (
+                <p className="mt-1 text-xs text-rose-600">{fieldErrors.minutesBefore}</p>
+              )}
+              <p className="mt-1 text-xs text-ink-500">
+                Measured from each site&#39;s cutoff, or {cutoffTime} for staff without a site.
+              </p>
+            </div>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">Template</label>
+              <select
+                className="mt-2 w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={schedule.templateId}
+                onChange={(event) => handleScheduleTemplateChange(event.target.value)}
+              >
+                {reminderTemplates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.label}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                className="mt-2 w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm text-ink-700"
+                rows={3}
+                value={schedule.message}
+                onChange={(event) => setSchedule((prev) => ({ ...prev, message: event.target.value }))}
+              />
+              {fieldErrors.message && <p className="mt-1 text-xs text-rose-600">{fieldErrors.message}</p>}
+            </div>
+            <button
+              className="rounded-full bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+              onClick={handleSaveSchedule}
+              disabled={saving || !token}
+            >
+              {saving ? "Saving..." : "Save schedule"}
+            </button>
+          </div>
+        )}
+
+        {tab === "history" && (
+          <div className="mt-5 space-y-3">
+            {historyLoading && <p className="text-sm text-ink-500">Loading history...</p>}
+            {!historyLoading && history.length === 0 && (
+              <p className="text-sm text-ink-500">No reminders sent yet.</p>
+            )}
+            {history.map((reminder) => (
+              <div key={reminder.id} className="rounded-2xl border border-ink-100 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-ink-500">
+                  <span>
+                    {formatDate(reminder.createdAt)} · {formatTime(reminder.createdAt)}
+                  </span>
+                  <span className="rounded-full bg-ink-100 px-2 py-1 font-semibold text-ink-700">
+                    {reminder.trigger === "scheduled" ? "Automatic" : "Manual"}
+                  </span>
+                </div>
+                <p className="mt-2 text-sm text-ink-700">{reminder.message}</p>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {reminder.recipients.map((recipient) => (
+                    <span
+                      key={recipient.userId}
+                      className={`rounded-full px-2 py-1 text-xs font-semibold ${deliveryStyles[recipient.status]}`}
+                      title={recipient.error}
+                    >
+                      {recipient.name} · {recipient.status}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {notice && (
+          <div className="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
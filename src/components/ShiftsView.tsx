@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { weekdayLabels } from "../lib/calendar";
+import { emptyShiftSchedule, findShiftFor, formatShiftDays } from "../lib/shifts";
+import { shiftTemplateSchema, toFieldErrors } from "../lib/validation";
+import type { RosterUser, ShiftAssignment, ShiftSchedule, ShiftTemplate } from "../types";
+
+type ShiftDraft = {
+  name: string;
+  startTime: string;
+  endTime: string;
+  days: number[];
+};
+
+const emptyDraft: ShiftDraft = { name: "", startTime: "08:00", endTime: "16:00", days: [1, 2, 3, 4, 5] };
+
+const weekOrder = [1, 2, 3, 4, 5, 6, 0];
+
+export default function ShiftsView({ token }: { token: string | null }) {
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [schedule, setSchedule] = useState<ShiftSchedule>(emptyShiftSchedule);
+  const [users, setUsers] = useState<RosterUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ShiftDraft>(emptyDraft);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [assignDrafts, setAssignDrafts] = useState<Record<string, { shiftId: string; effectiveFrom: string }>>({});
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    Promise.all([
+      apiRequest<ShiftSchedule>("/admin/shifts", { token }),
+      apiRequest<{ items: RosterUser[] }>("/admin/users", { token })
+    ])
+      .then(([shiftData, userData]) => {
+        setSchedule(shiftData);
+        setUsers(userData.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load shifts");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token]);
+
+  const sortedUsers = useMemo(() => [...users].sort((a, b) => a.name.localeCompare(b.name)), [users]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setFieldErrors({});
+  };
+
+  const toggleDay = (day: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      days: prev.days.includes(day)
+        ? prev.days.filter((item) => item !== day)
+        : [...prev.days, day].sort((a, b) => a - b)
+    }));
+  };
+
+  const handleEdit = (template: ShiftTemplate) => {
+    setEditingId(template.id);
+    setFieldErrors({});
+    setDraft({ name: template.name, startTime: template.startTime, endTime: template.endTime, days: template.days });
+  };
+
+  const handleSave = async () => {
+    if (!token) {
+      return;
+    }
+    const parsed = shiftTemplateSchema.safeParse(draft);
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    setFieldErrors({});
+    try {
+      const saved = await apiRequest<ShiftTemplate>(editingId ? `/admin/shifts/${editingId}` : "/admin/shifts", {
+        method: editingId ? "PUT" : "POST",
+        token,
+        body: parsed.data
+      });
+      setSchedule((prev) => ({
+        ...prev,
+        templates: editingId
+          ? prev.templates.map((item) => (item.id === saved.id ? saved : item))
+          : [...prev.templates, saved]
+      }));
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save shift.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ShiftTemplate) => {
+    if (!token) {
+      return;
+    }
+    if (schedule.assignments.some((item) => item.shiftId === template.id)) {
+      setError(`${template.name} is assigned to staff. Reassign them before deleting it.`);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      await apiRequest<void>(`/admin/shifts/${template.id}`, { method: "DELETE", token });
+      setSchedule((prev) => ({ ...prev, templates: prev.templates.filter((item) => item.id !== template.id) }));
+      if (editingId === template.id) {
+        resetForm();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete shift.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssign = async (user: RosterUser) => {
+    const assignDraft = assignDrafts[user.id];
+    if (!token || !assignDraft?.shiftId) {
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      const assignment = await apiRequest<ShiftAssignment>("/admin/shift-assignments", {
+        method: "POST",
+        token,
+        body: { userId: user.id, shiftId: assignDraft.shiftId, effectiveFrom: assignDraft.effectiveFrom }
+      });
+      setSchedule((prev) => ({ ...prev, assignments: [...prev.assignments, assignment] }));
+      setAssignDrafts((prev) => {
+        const next = { ...prev };
+        delete next[user.id];
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to assign shift.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-3xl bg-white p-6 shadow-soft">
+        <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Rota</p>
+        <h2 className="mt-2 text-3xl font-semibold text-ink-900">Shift schedules</h2>
+        <p className="mt-2 text-ink-600">
+          Lateness is judged against each employee&#39;s shift start. Days outside their shift are not counted as
+          missing.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft">
+          <h3 className="text-lg font-semibold text-ink-900">Templates</h3>
+          <ul className="mt-4 space-y-3">
+            {!loading && schedule.templates.length === 0 && (
+              <li className="text-sm text-ink-500">No shifts yet. Staff use their site cutoff.</li>
+            )}
+            {schedule.templates.map((template) => (
+              <li key={template.id} className="rounded-2xl border border-ink-100 p-4 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-semibold text-ink-900">{template.name}</p>
+                  <div className="flex gap-2">
+                    <button className="text-xs font-semibold text-ink-600" onClick={() => handleEdit(template)}>
+                      Edit
+                    </button>
+                    <button
+                      className="text-xs font-semibold text-rose-600 disabled:opacity-60"
+                      onClick={() => handleDelete(template)}
+                      disabled={saving}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-1 text-ink-600">
+                  {template.startTime}–{template.endTime} · {formatShiftDays(template.days)}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-6 space-y-3 border-t border-ink-100 pt-6">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
+              {editingId ? "Edit shift" : "New shift"}
+            </p>
+            <input
+              className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+              placeholder="Early shift"
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            {fieldErrors.name && <p className="text-xs text-rose-600">{fieldErrors.name}</p>}
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="time"
+                className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={draft.startTime}
+                onChange={(event) => setDraft((prev) => ({ ...prev, startTime: event.target.value }))}
+              />
+              <span className="text-sm text-ink-500">to</span>
+              <input
+                type="time"
+                className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={draft.endTime}
+                onChange={(event) => setDraft((prev) => ({ ...prev, endTime: event.target.value }))}
+              />
+            </div>
+            {(fieldErrors.startTime || fieldErrors.endTime) && (
+              <p className="text-xs text-rose-600">{fieldErrors.startTime ?? fieldErrors.endTime}</p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {weekOrder.map((day) => (
+                <button
+                  key={day}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                    draft.days.includes(day) ? "bg-ink-900 text-white" : "border border-ink-200 text-ink-600"
+                  }`}
+                  onClick={() => toggleDay(day)}
+                  type="button"
+                >
+                  {weekdayLabels[day]}
+                </button>
+              ))}
+            </div>
+            {fieldErrors.days && <p className="text-xs text-rose-600">{fieldErrors.days}</p>}
+            <div className="flex gap-2">
+              <button
+                className="rounded-full bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+                onClick={handleSave}
+                disabled={saving || !token}
+              >
+                {saving ? "Saving..." : editingId ? "Save shift" : "Add shift"}
+              </button>
+              {editingId && (
+                <button
+                  className="rounded-full border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700"
+                  onClick={resetForm}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+          <h3 className="text-lg font-semibold text-ink-900">Assignments</h3>
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-ink-100">
+            <table className="w-full min-w-[520px] text-left text-sm">
+              <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
+                <tr>
+                  <th className="px-4 py-3">Employee</th>
+                  <th className="px-4 py-3">Current</th>
+                  <th className="px-4 py-3">Change to</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedUsers.map((user) => {
+                  const current = findShiftFor(user.id, todayKey, schedule);
+                  const upcoming = schedule.assignments
+                    .filter((item) => item.userId === user.id && item.effectiveFrom > todayKey)
+                    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))[0];
+                  const assignDraft = assignDrafts[user.id] ?? { shiftId: "", effectiveFrom: todayKey };
+                  return (
+                    <tr key={user.id} className="border-t border-ink-100 align-top">
+                      <td className="px-4 py-3 font-semibold text-ink-900">{user.name}</td>
+                      <td className="px-4 py-3 text-ink-600">
+                        {current ? `${current.name} (${current.startTime})` : "Site cutoff"}
+                        {upcoming && (
+                          <p className="mt-1 text-xs text-ink-500">
+                            {schedule.templates.find((item) => item.id === upcoming.shiftId)?.name ?? "Shift"} from{" "}
+                            {upcoming.effectiveFrom}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+                            value={assignDraft.shiftId}
+                            onChange={(event) =>
+                              setAssignDrafts((prev) => ({
+                                ...prev,
+                                [user.id]: { ...assignDraft, shiftId: event.target.value }
+                              }))
+                            }
+                          >
+                            <option value="">Choose shift</option>
+                            {schedule.templates.map((template) => (
+                              <option key={template.id} value={template.id}>
+                                {template.name}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="date"
+                            className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700"
+                            value={assignDraft.effectiveFrom}
+                            onChange={(event) =>
+                              setAssignDrafts((prev) => ({
+                                ...prev,
+                                [user.id]: { ...assignDraft, effectiveFrom: event.target.value }
+                              }))
+                            }
+                          />
+                          <button
+                            className="rounded-full bg-ink-900 px-3 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                            onClick={() => handleAssign(user)}
+                            disabled={saving || !assignDraft.shiftId || !assignDraft.effectiveFrom}
+                          >
+                            Assign
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {!loading && sortedUsers.length === 0 && (
+                  <tr>
+                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={3}>
+                      No employees yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from "react";
+import { apiRequest } from "../lib/api";
+import { groupUsersByTeam, isTeamLead } from "../lib/teams";
+import { teamSchema, toFieldErrors } from "../lib/validation";
+import type { RosterUser, Team } from "../types";
+
+export default function TeamsView({ token }: { token: string | null }) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [users, setUsers] = useState<RosterUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    Promise.all([
+      apiRequest<{ items: Team[] }>("/admin/teams", { token }),
+      apiRequest<{ items: RosterUser[] }>("/admin/users", { token })
+    ])
+      .then(([teamData, userData]) => {
+        setTeams(teamData.items);
+        setUsers(userData.items);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load teams");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token]);
+
+  const sortedTeams = useMemo(() => [...teams].sort((a, b) => a.name.localeCompare(b.name)), [teams]);
+  const groups = useMemo(() => groupUsersByTeam(users, teams), [users, teams]);
+
+  const memberCount = (teamId: string) => users.filter((user) => user.teamId === teamId).length;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraftName("");
+    setFieldErrors({});
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    setError("");
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const replaceTeam = (saved: Team) => {
+    setTeams((prev) => prev.map((item) => (item.id === saved.id ? saved : item)));
+  };
+
+  const handleSave = () => {
+    if (!token) {
+      return;
+    }
+    const parsed = teamSchema.safeParse({ name: draftName });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error).fieldErrors);
+      return;
+    }
+    setFieldErrors({});
+    run(async () => {
+      const saved = await apiRequest<Team>(editingId ? `/admin/teams/${editingId}` : "/admin/teams", {
+        method: editingId ? "PUT" : "POST",
+        token,
+        body: parsed.data
+      });
+      if (editingId) {
+        replaceTeam(saved);
+      } else {
+        setTeams((prev) => [...prev, saved]);
+      }
+      resetForm();
+    }, "Unable to save team.");
+  };
+
+  const handleDelete = (team: Team) => {
+    if (!token) {
+      return;
+    }
+    if (memberCount(team.id) > 0) {
+      setError(`${team.name} still has members. Move them to another team first.`);
+      return;
+    }
+    run(async () => {
+      await apiRequest<void>(`/admin/teams/${team.id}`, { method: "DELETE", token });
+      setTeams((prev) => prev.filter((item) => item.id !== team.id));
+      if (editingId === team.id) {
+        resetForm();
+      }
+    }, "Unable to delete team.");
+  };
+
+  const handleMove = (user: RosterUser, teamId: string) => {
+    if (!token) {
+      return;
+    }
+    run(async () => {
+      const updated = await apiRequest<RosterUser>(`/admin/users/${user.id}/team`, {
+        method: "PUT",
+        token,
+        body: { teamId: teamId || null }
+      });
+      setUsers((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      // Leaving a team also drops any lead role held there.
+      setTeams((prev) =>
+        prev.map((team) =>
+          team.id !== updated.teamId && team.leadIds.includes(user.id)
+            ? { ...team, leadIds: team.leadIds.filter((id) => id !== user.id) }
+            : team
+        )
+      );
+    }, "Unable to move employee.");
+  };
+
+  const handleToggleLead = (user: RosterUser, team: Team) => {
+    if (!token) {
+      return;
+    }
+    const leadIds = isTeamLead(user.id, team)
+      ? team.leadIds.filter((id) => id !== user.id)
+      : [...team.leadIds, user.id];
+    run(async () => {
+      const saved = await apiRequest<Team>(`/admin/teams/${team.id}`, {
+        method: "PUT",
+        token,
+        body: { name: team.name, leadIds }
+      });
+      replaceTeam(saved);
+    }, "Unable to update team lead.");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-3xl bg-white p-6 shadow-soft">
+        <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Organisation</p>
+        <h2 className="mt-2 text-3xl font-semibold text-ink-900">Teams</h2>
+        <p className="mt-2 text-ink-600">Group staff into teams or departments to filter the overview and exports.</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,0.8fr)_minmax(0,1.2fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft">
+          <h3 className="text-lg font-semibold text-ink-900">All teams</h3>
+          <ul className="mt-4 space-y-3">
+            {!loading && sortedTeams.length === 0 && <li className="text-sm text-ink-500">No teams yet.</li>}
+            {sortedTeams.map((team) => {
+              const leads = users.filter((user) => isTeamLead(user.id, team));
+              return (
+                <li key={team.id} className="rounded-2xl border border-ink-100 p-4 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-semibold text-ink-900">{team.name}</p>
+                    <div className="flex gap-2">
+                      <button
+                        className="text-xs font-semibold text-ink-600"
+                        onClick={() => {
+                          setEditingId(team.id);
+                          setDraftName(team.name);
+                          setFieldErrors({});
+                        }}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        className="text-xs font-semibold text-rose-600 disabled:opacity-60"
+                        onClick={() => handleDelete(team)}
+                        disabled={saving}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <p className="mt-1 text-ink-600">
+                    {memberCount(team.id)} member(s)
+                    {leads.length > 0 && ` · Led by ${leads.map((user) => user.name).join(", ")}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="mt-6 space-y-3 border-t border-ink-100 pt-6">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
+              {editingId ? "Rename team" : "New team"}
+            </p>
+            <input
+              className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+              placeholder="Operations"
+              value={draftName}
+              onChange={(event) => setDraftName(event.target.value)}
+            />
+            {fieldErrors.name && <p className="text-xs text-rose-600">{fieldErrors.name}</p>}
+            <div className="flex gap-2">
+              <button
+                className="rounded-full bg-ink-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+                onClick={handleSave}
+                disabled={saving || !token}
+              >
+                {saving ? "Saving..." : editingId ? "Save team" : "Add team"}
+              </button>
+              {editingId && (
+                <button
+                  className="rounded-full border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700"
+                  onClick={resetForm}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-3xl bg-white p-6 shadow-soft min-w-0">
+          <h3 className="text-lg font-semibold text-ink-900">Members</h3>
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-ink-100">
+            <table className="w-full min-w-[520px] text-left text-sm">
+              <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
+                <tr>
+                  <th className="px-4 py-3">Employee</th>
+                  <th className="px-4 py-3">Team</th>
+                  <th className="px-4 py-3">Lead</th>
+                </tr>
+              </thead>
+              {groups.map((group) => (
+                <tbody key={group.team?.id ?? "none"}>
+                  <tr className="border-t border-ink-100 bg-ink-50/60">
+                    <td className="px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-ink-500" colSpan={3}>
+                      {group.label}
+                    </td>
+                  </tr>
+                  {group.users.map((user) => (
+                    <tr key={user.id} className="border-t border-ink-100">
+                      <td className="px-4 py-3">
+                        <p className="font-semibold text-ink-900">{user.name}</p>
+                        <p className="text-xs text-ink-500">{user.email}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="rounded-full border border-ink-200 px-3 py-1 text-xs text-ink-700 disabled:opacity-60"
+                          value={group.team?.id ?? ""}
+                          onChange={(event) => handleMove(user, event.target.value)}
+                          disabled={saving}
+                        >
+                          <option value="">No team</option>
+                          {sortedTeams.map((team) => (
+                            <option key={team.id} value={team.id}>
+                              {team.name}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        {group.team && (
+                          <label className="flex items-center gap-2 text-xs text-ink-600">
+                            <input
+                              type="checkbox"
+                              checked={isTeamLead(user.id, group.team)}
+                              onChange={() => group.team && handleToggleLead(user, group.team)}
+                              disabled={saving}
+                            />
+                            Team lead
+                          </label>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+              {!loading && users.length === 0 && (
+                <tbody>
+                  <tr>
+                    <td className="px-4 py-6 text-sm text-ink-500" colSpan={3}>
+                      No employees yet.
+                    </td>
+                  </tr>
+                </tbody>
+              )}
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+export default function UpdatePrompt({
+  nextVersion,
+  onReload,
+  onDismiss
+}: {
+  nextVersion: string | null;
+  onReload: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md flex-wrap items-center justify-between gap-3 rounded-3xl bg-ink-900 px-5 py-4 text-white shadow-soft">
+      <div>
+        <p className="text-sm font-semibold">Update available</p>
+        <p className="text-xs text-white/70">
+          {nextVersion ? `Version ${nextVersion}` : "A new version"} is ready. You&#39;re on {__APP_VERSION__}.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <button className="rounded-full px-3 py-1 text-xs font-semibold text-white/70" onClick={onDismiss}>
+          Later
+        </button>
+        <button
+          className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-ink-900"
+          onClick={onReload}
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,51 @@
 import { useEffect, useMemo, useState } from "react";
+import type { KeyboardEvent } from "react";
 import { apiRequest } from "../lib/api";
-import { downloadFile } from "../lib/download";
-import { formatDate, formatTime } from "../lib/format";
-import type { AttendanceRecord, RosterUser } from "../types";
+import { exportBlob, exportFormatLabels, type ExportFormat } from "../lib/attendanceExport";
+import { downloadFile, saveBlob } from "../lib/download";
+import { flagReasonLabels, flagStatusLabels, flagStatusStyles } from "../lib/flags";
+import { formatDate, formatTime, formatWorkedHours, getWorkedMinutes } from "../lib/format";
+import { resolveRecordSite } from "../lib/geofence";
+import {
+  buildMonthDays,
+  evaluateRecords,
+  monthDates,
+  shiftMonth,
+  summarizeHistory,
+  type HistoryDay,
+  type HistoryStats
+} from "../lib/history";
+import { formatLeaveRange, leaveDaysWithin, leaveTypeLabels } from "../lib/leave";
+import { formatMinutesLate } from "../lib/punctuality";
+import { groupUsersByTeam } from "../lib/teams";
+import type {
+  AttendanceRecord,
+  FlagCase,
+  LatenessPolicy,
+  LeaveRequest,
+  OfficeSite,
+  RosterUser,
+  ShiftSchedule,
+  Team,
+  WorkCalendar
+} from "../types";
+import FlagCaseThread from "./FlagCaseThread";
+import MonthCalendar, { CalendarLegend } from "./MonthCalendar";
 
 const statusStyles: Record<string, string> = {
   "On time": "bg-emerald-100 text-emerald-800",
-  Late: "bg-amber-100 text-amber-800"
+  Late: "bg-amber-100 text-amber-800",
+  "Very late": "bg-orange-100 text-orange-800",
+  "On leave": "bg-brand-100 text-brand-800"
 };
 
-type HistoryStats = {
-  onTime: number;
-  late: number;
-  total: number;
-  punctualityRate: number;
-};
+type HistoryView = "table" | "month" | "year";
+
+const historyViews: { id: HistoryView; label: string }[] = [
+  { id: "table", label: "Table" },
+  { id: "month", label: "Month" },
+  { id: "year", label: "Year" }
+];
 
 type HistoryResponse = {
   user: RosterUser;
@@ -22,16 +53,27 @@ type HistoryResponse = {
   cutoffTime: string;
   stats: HistoryStats;
   items: AttendanceRecord[];
+  leave?: LeaveRequest[];
 };
 
 export default function UserHistoryPanel({
   token,
   roster,
+  teams,
+  sites,
+  calendar,
+  shifts,
+  latenessPolicy,
   cutoffTime,
   refreshKey
 }: {
   token: string | null;
   roster: RosterUser[];
+  teams: Team[];
+  sites: OfficeSite[];
+  calendar: WorkCalendar;
+  shifts: ShiftSchedule;
+  latenessPolicy: LatenessPolicy;
   cutoffTime: string;
   refreshKey: number;
 }) {
@@ -44,11 +86,18 @@ export default function UserHistoryPanel({
   const [selectedUserId, setSelectedUserId] = useState<string>("");
   const [month, setMonth] = useState(defaultMonth);
   const [items, setItems] = useState<AttendanceRecord[]>([]);
-  const [stats, setStats] = useState<HistoryStats>({ onTime: 0, late: 0, total: 0, punctualityRate: 0 });
+  const [leave, setLeave] = useState<LeaveRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [exporting, setExporting] = useState(false);
   const [exportError, setExportError] = useState("");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
+  const [view, setView] = useState<HistoryView>("table");
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [yearItems, setYearItems] = useState<AttendanceRecord[]>([]);
+  const [yearLeave, setYearLeave] = useState<LeaveRequest[]>([]);
+  const todayKey = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const year = month.slice(0, 4);
 
   useEffect(() => {
     if (!selectedUserId && roster.length > 0) {
@@ -66,7 +115,7 @@ export default function UserHistoryPanel({
     apiRequest<HistoryResponse>(path, { token })
       .then((data) => {
         setItems(data.items ?? []);
-        setStats(data.stats ?? { onTime: 0, late: 0, total: 0, punctualityRate: 0 });
+        setLeave((data.leave ?? []).filter((entry) => entry.status === "approved"));
       })
       .catch((err) => {
         setError(err instanceof Error ? err.message : "Unable to load history");
@@ -76,8 +125,109 @@ export default function UserHistoryPanel({
       });
   }, [token, selectedUserId, month, refreshKey]);
 
+  useEffect(() => {
+    if (!token || !selectedUserId || view !== "year") {
+      return;
+    }
+    setLoading(true);
+    apiRequest<HistoryResponse>(`/admin/users/${selectedUserId}/attendance?year=${year}`, { token })
+      .then((data) => {
+        setYearItems(data.items ?? []);
+        setYearLeave((data.leave ?? []).filter((entry) => entry.status === "approved"));
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load history");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token, selectedUserId, year, view, refreshKey]);
+
+  useEffect(() => {
+    setSelectedDate(null);
+  }, [selectedUserId]);
+
+  const context = useMemo(
+    () => ({ calendar, shifts, sites, cutoffTime, latenessPolicy }),
+    [calendar, shifts, sites, cutoffTime, latenessPolicy]
+  );
+  const evaluations = useMemo(() => evaluateRecords(items, context), [items, context]);
+  const yearEvaluations = useMemo(() => evaluateRecords(yearItems, context), [yearItems, context]);
+
+  const monthDays = useMemo(
+    () => buildMonthDays(selectedUserId, month, items, evaluations, leave, context, todayKey),
+    [selectedUserId, month, items, evaluations, leave, context, todayKey]
+  );
+  const yearMonths = useMemo(
+    () =>
+      Array.from({ length: 12 }, (_, index) => {
+        const key = `${year}-${String(index + 1).padStart(2, "0")}`;
+        return {
+          key,
+          days: buildMonthDays(selectedUserId, key, yearItems, yearEvaluations, yearLeave, context, todayKey)
+        };
+      }),
+    [selectedUserId, year, yearItems, yearEvaluations, yearLeave, context, todayKey]
+  );
+
+  const selectedDay = useMemo(() => {
+    const source = view === "year" ? yearMonths.flatMap((entry) => entry.days) : monthDays;
+    return source.find((day) => day.date === selectedDate) ?? null;
+  }, [view, yearMonths, monthDays, selectedDate]);
+  const selectedEvaluation = selectedDay?.record
+    ? (view === "year" ? yearEvaluations : evaluations).get(selectedDay.record.id)
+    : undefined;
+
+  const handleSelectDay = (day: HistoryDay) => {
+    setSelectedDate(day.date);
+    if (day.date.slice(0, 7) !== month) {
+      setMonth(day.date.slice(0, 7));
+    }
+  };
+
+  // Arrow keys page through months (or years in the year view) while the calendar has focus.
+  const handleCalendarKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") {
+      return;
+    }
+    event.preventDefault();
+    const step = event.key === "ArrowLeft" ? -1 : 1;
+    setMonth((current) => shiftMonth(current, view === "year" ? step * 12 : step));
+    setSelectedDate(null);
+  };
+
+  const applyFlagCase = (flagCase: FlagCase) => {
+    const update = (prev: AttendanceRecord[]) =>
+      prev.map((item) => (item.id === flagCase.attendanceId ? { ...item, flag: flagCase } : item));
+    setItems(update);
+    setYearItems(update);
+  };
+
+  const stats = useMemo(() => summarizeHistory(items, evaluations), [items, evaluations]);
+
   const selectedUser = roster.find((user) => user.id === selectedUserId);
+  const rosterGroups = useMemo(() => groupUsersByTeam(roster, teams), [roster, teams]);
   const punctualityLabel = `${stats.punctualityRate}% on-time`;
+  const totalWorkedMinutes = useMemo(
+    () =>
+      items.reduce((total, item) => total + (getWorkedMinutes(item.capturedAt, item.checkedOutAt) ?? 0), 0),
+    [items]
+  );
+
+  const leaveDays = useMemo(() => {
+    const [year, monthIndex] = month.split("-").map(Number);
+    const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+    return leave.reduce((total, entry) => total + leaveDaysWithin(entry, `${month}-01`, `${month}-${lastDay}`), 0);
+  }, [leave, month]);
+
+  const rows = useMemo(
+    () =>
+      [
+        ...items.map((item) => ({ kind: "record" as const, sortKey: item.capturedAt, item })),
+        ...leave.map((entry) => ({ kind: "leave" as const, sortKey: entry.startDate, entry }))
+      ].sort((a, b) => a.sortKey.localeCompare(b.sortKey)),
+    [items, leave]
+  );
 
   const handleExportUser = async () => {
     if (!token || !selectedUserId) {
@@ -86,7 +236,27 @@ export default function UserHistoryPanel({
     setExporting(true);
     setExportError("");
     try {
-      await downloadFile(`/admin/users/${selectedUserId}/export?month=${month}`, token, `attendance-${month}.xlsx`);
+      if (exportFormat === "xlsx") {
+        await downloadFile(
+          `/admin/users/${selectedUserId}/export?month=${month}&workingDaysOnly=true`,
+          token,
+          `attendance-${month}.xlsx`
+        );
+        return;
+      }
+      const blob = await exportBlob(exportFormat, {
+        title: `${selectedUser?.name ?? "Employee"} attendance`,
+        period: month,
+        items,
+        evaluations,
+        users: selectedUser ? [selectedUser] : [],
+        dates: monthDates(month),
+        leave,
+        context,
+        todayKey
+      });
+      const slug = selectedUser?.name.replace(/\s+/g, "-").toLowerCase() ?? "user";
+      saveBlob(blob, `attendance-${slug}-${month}.${exportFormat}`);
     } catch (err) {
       setExportError(err instanceof Error ? err.message : "Unable to export");
     } finally {
@@ -100,7 +270,7 @@ export default function UserHistoryPanel({
         <div>
           <h3 className="text-lg font-semibold text-ink-900">Per-user history</h3>
           <p className="mt-1 text-sm text-ink-600">
-            Punctuality rate is based on days with check-ins. Cutoff time: {cutoffTime}.
+            Punctuality rate is based on working days with check-ins. Cutoff time: {cutoffTime}.
           </p>
         </div>
         <div className="flex flex-wrap gap-3">
@@ -109,11 +279,21 @@ export default function UserHistoryPanel({
             value={selectedUserId}
             onChange={(event) => setSelectedUserId(event.target.value)}
           >
-            {roster.map((user) => (
-              <option key={user.id} value={user.id}>
-                {user.name}
-              </option>
-            ))}
+            {teams.length === 0
+              ? roster.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.name}
+                  </option>
+                ))
+              : rosterGroups.map((group) => (
+                  <optgroup key={group.team?.id ?? "none"} label={group.label}>
+                    {group.users.map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
           </select>
           <input
             type="month"
@@ -121,6 +301,18 @@ export default function UserHistoryPanel({
             value={month}
             onChange={(event) => setMonth(event.target.value)}
           />
+          <select
+            className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+            value={exportFormat}
+            onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+            aria-label="Export format"
+          >
+            {(Object.keys(exportFormatLabels) as ExportFormat[]).map((format) => (
+              <option key={format} value={format}>
+                {exportFormatLabels[format]}
+              </option>
+            ))}
+          </select>
           <button
             className="rounded-full border border-ink-200 px-4 py-2 text-sm font-semibold text-ink-700 disabled:opacity-60"
             onClick={handleExportUser}
@@ -131,7 +323,7 @@ export default function UserHistoryPanel({
         </div>
       </div>
 
-      <div className="mt-6 grid gap-4 md:grid-cols-3">
+      <div className="mt-6 grid gap-4 md:grid-cols-2 xl:grid-cols-5">
         <div className="rounded-2xl border border-ink-100 p-4">
           <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Punctuality</p>
           <p className="mt-3 text-2xl font-semibold text-ink-900">{punctualityLabel}</p>
@@ -150,60 +342,254 @@ export default function UserHistoryPanel({
         <div className="rounded-2xl border border-ink-100 p-4">
           <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Late</p>
           <p className="mt-3 text-2xl font-semibold text-ink-900">{stats.late}</p>
-          <p className="mt-2 text-sm text-ink-500">Days checked in late</p>
+          <p className="mt-2 text-sm text-ink-500">
+            {stats.veryLate} very late · {formatWorkedHours(stats.minutesLate)} lost
+          </p>
+        </div>
+        <div className="rounded-2xl border border-ink-100 p-4">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Hours worked</p>
+          <p className="mt-3 text-2xl font-semibold text-ink-900">{formatWorkedHours(totalWorkedMinutes)}</p>
+          <p className="mt-2 text-sm text-ink-500">Days with a clock-out</p>
+        </div>
+        <div className="rounded-2xl border border-ink-100 p-4">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink-500">On leave</p>
+          <p className="mt-3 text-2xl font-semibold text-ink-900">{leaveDays}</p>
+          <p className="mt-2 text-sm text-ink-500">Approved days this month</p>
         </div>
       </div>
 
-      <div className="mt-6 overflow-x-auto rounded-2xl border border-ink-100">
-        <table className="min-w-[640px] w-full text-left text-sm">
-          <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
-            <tr>
-              <th className="px-4 py-3">Date</th>
-              <th className="px-4 py-3">Time</th>
-              <th className="px-4 py-3">Status</th>
-              <th className="px-4 py-3">Location</th>
-            </tr>
-          </thead>
-          <tbody>
-            {items.map((item) => {
-              const status = statusLabel(item.status);
-              return (
-                <tr key={item.id} className="border-t border-ink-100">
-                  <td className="px-4 py-3 text-ink-700">
-                    {formatDate(item.capturedAt, item.timezone)}
-                  </td>
-                  <td className="px-4 py-3 text-ink-700">
-                    {formatTime(item.capturedAt, item.timezone)}
-                  </td>
-                  <td className="px-4 py-3">
-                    <div className="flex flex-wrap items-center gap-2">
-                      <span className={`rounded-full px-3 py-1 text-xs font-semibold ${statusStyles[status]}`}>
-                        {status}
-                      </span>
-                      {item.flagComment && (
-                        <span
-                          className="rounded-full bg-rose-100 px-2 py-1 text-xs font-semibold text-rose-700"
-                          title={item.flagComment}
-                        >
-                          Flagged
+      <div className="mt-6 flex w-max items-center gap-2 rounded-full bg-ink-50 p-1">
+        {historyViews.map((item) => (
+          <button
+            key={item.id}
+            className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
+              view === item.id ? "bg-ink-900 text-white" : "text-ink-600"
+            }`}
+            onClick={() => setView(item.id)}
+            type="button"
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {view === "table" ? (
+        <div className="mt-4 overflow-x-auto rounded-2xl border border-ink-100">
+          <table className="min-w-[800px] w-full text-left text-sm">
+            <thead className="bg-ink-50 text-xs uppercase tracking-[0.2em] text-ink-500">
+              <tr>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Time</th>
+                <th className="px-4 py-3">Out</th>
+                <th className="px-4 py-3">Hours</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Location</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                if (row.kind === "leave") {
+                  return (
+                    <tr key={`leave-${row.entry.id}`} className="border-t border-ink-100">
+                      <td className="px-4 py-3 text-ink-700">{formatLeaveRange(row.entry)}</td>
+                      <td className="px-4 py-3 text-ink-700">--</td>
+                      <td className="px-4 py-3 text-ink-700">--</td>
+                      <td className="px-4 py-3 text-ink-700">--</td>
+                      <td className="px-4 py-3">
+                        <span className={`rounded-full px-3 py-1 text-xs font-semibold ${statusStyles["On leave"]}`}>
+                          On leave
                         </span>
+                      </td>
+                      <td className="px-4 py-3 text-ink-600" title={row.entry.note}>
+                        {leaveTypeLabels[row.entry.type]}
+                      </td>
+                    </tr>
+                  );
+                }
+                const { item } = row;
+                const { status, minutesLate, offReason } = evaluations.get(item.id) ?? {
+                  status: "On time",
+                  minutesLate: 0,
+                  offReason: null
+                };
+                return (
+                  <tr key={item.id} className="border-t border-ink-100">
+                    <td className="px-4 py-3 text-ink-700">
+                      {formatDate(item.capturedAt, item.timezone)}
+                    </td>
+                    <td className="px-4 py-3 text-ink-700">
+                      {formatTime(item.capturedAt, item.timezone)}
+                      {minutesLate > 0 && (
+                        <span className="ml-2 text-xs font-semibold text-amber-700">{formatMinutesLate(minutesLate)}</span>
                       )}
-                    </div>
+                    </td>
+                    <td className="px-4 py-3 text-ink-700">
+                      {item.checkedOutAt ? formatTime(item.checkedOutAt, item.timezone) : "--"}
+                    </td>
+                    <td className="px-4 py-3 text-ink-700">
+                      {formatWorkedHours(getWorkedMinutes(item.capturedAt, item.checkedOutAt))}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`rounded-full px-3 py-1 text-xs font-semibold ${statusStyles[status]}`}>
+                          {status}
+                        </span>
+                        {offReason && (
+                          <span className="rounded-full bg-ink-100 px-2 py-1 text-xs font-semibold text-ink-600">
+                            {offReason}
+                          </span>
+                        )}
+                        {item.flag && (
+                          <span
+                            className={`rounded-full px-2 py-1 text-xs font-semibold ${flagStatusStyles[item.flag.status]}`}
+                            title={flagReasonLabels[item.flag.reason]}
+                          >
+                            Flag · {flagStatusLabels[item.flag.status]}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-ink-600" title={item.locationLabel}>
+                      {resolveRecordSite(item, sites)?.name ?? item.locationLabel}
+                    </td>
+                  </tr>
+                );
+              })}
+              {!loading && rows.length === 0 && (
+                <tr>
+                  <td className="px-4 py-6 text-sm text-ink-500" colSpan={6}>
+                    No check-ins found for {selectedUser?.name ?? "this user"}.
                   </td>
-                  <td className="px-4 py-3 text-ink-600">{item.locationLabel}</td>
                 </tr>
-              );
-            })}
-            {!loading && items.length === 0 && (
-              <tr>
-                <td className="px-4 py-6 text-sm text-ink-500" colSpan={4}>
-                  No check-ins found for {selectedUser?.name ?? "this user"}.
-                </td>
-              </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="mt-4 grid gap-6 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,0.8fr)]">
+          <div
+            className="rounded-2xl border border-ink-100 p-4 outline-none focus:ring-2 focus:ring-ink-200"
+            tabIndex={0}
+            onKeyDown={handleCalendarKeyDown}
+            aria-label="Attendance calendar. Use the left and right arrow keys to change period."
+          >
+            <div className="mb-4 flex items-center justify-between gap-2">
+              <button
+                className="rounded-full border border-ink-200 px-3 py-1 text-sm font-semibold text-ink-700"
+                onClick={() => setMonth((current) => shiftMonth(current, view === "year" ? -12 : -1))}
+                aria-label={view === "year" ? "Previous year" : "Previous month"}
+              >
+                ‹
+              </button>
+              <p className="text-sm font-semibold text-ink-900">
+                {view === "year"
+                  ? year
+                  : new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", {
+                      month: "long",
+                      year: "numeric",
+                      timeZone: "UTC"
+                    })}
+              </p>
+              <button
+                className="rounded-full border border-ink-200 px-3 py-1 text-sm font-semibold text-ink-700"
+                onClick={() => setMonth((current) => shiftMonth(current, view === "year" ? 12 : 1))}
+                aria-label={view === "year" ? "Next year" : "Next month"}
+              >
+                ›
+              </button>
+            </div>
+            {view === "month" ? (
+              <MonthCalendar days={monthDays} selectedDate={selectedDate} onSelect={handleSelectDay} />
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-4 sm:grid-cols-4">
+                  {yearMonths.map((entry) => (
+                    <div key={entry.key}>
+                      <p className="mb-1 text-xs font-semibold text-ink-600">
+                        {new Date(`${entry.key}-01T00:00:00Z`).toLocaleDateString("en-US", {
+                          month: "short",
+                          timeZone: "UTC"
+                        })}
+                      </p>
+                      <MonthCalendar
+                        days={entry.days}
+                        selectedDate={selectedDate}
+                        onSelect={handleSelectDay}
+                        compact
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-4">
+                  <CalendarLegend />
+                </div>
+              </>
             )}
-          </tbody>
-        </table>
-      </div>
+          </div>
+
+          <div className="rounded-2xl border border-ink-100 p-4">
+            {!selectedDay ? (
+              <p className="text-sm text-ink-500">Click a day to see its photo and flag details.</p>
+            ) : (
+              <div className="space-y-3 text-sm text-ink-600">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold text-ink-900">
+                    {new Date(`${selectedDay.date}T00:00:00Z`).toLocaleDateString("en-US", {
+                      weekday: "long",
+                      month: "short",
+                      day: "numeric",
+                      timeZone: "UTC"
+                    })}
+                  </p>
+                  <span className="rounded-full bg-ink-100 px-3 py-1 text-xs font-semibold text-ink-700">
+                    {selectedDay.label}
+                  </span>
+                </div>
+                {selectedDay.record ? (
+                  <>
+                    {selectedDay.record.photoUrl && (
+                      <img
+                        src={selectedDay.record.photoUrl}
+                        alt={selectedDay.record.userName}
+                        className="max-h-64 w-full rounded-2xl bg-ink-50 object-contain"
+                      />
+                    )}
+                    <div className="flex items-center justify-between">
+                      <span>Arrived</span>
+                      <span className="font-semibold text-ink-900">
+                        {formatTime(selectedDay.record.capturedAt, selectedDay.record.timezone)}{" "}
+                        {formatMinutesLate(selectedEvaluation?.minutesLate ?? 0)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Left</span>
+                      <span className="font-semibold text-ink-900">
+                        {selectedDay.record.checkedOutAt
+                          ? formatTime(selectedDay.record.checkedOutAt, selectedDay.record.timezone)
+                          : "--"}
+                      </span>
+                    </div>
+                    <div className="border-t border-ink-100 pt-3">
+                      {selectedDay.record.flag ? (
+                        <FlagCaseThread
+                          token={token}
+                          flagCase={selectedDay.record.flag}
+                          viewerRole="admin"
+                          onUpdated={applyFlagCase}
+                        />
+                      ) : (
+                        <p className="text-xs text-ink-500">No flag on this check-in.</p>
+                      )}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-ink-500">No check-in recorded.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
 
       {error && (
         <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
@@ -219,6 +605,3 @@ export default function UserHistoryPanel({
   );
 }
 
-function statusLabel(status: AttendanceRecord["status"]) {
-  return status === "late" ? "Late" : "On time";
-}
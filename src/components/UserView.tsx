@@ -1,34 +1,84 @@
 import { useEffect, useRef, useState } from "react";
-import { apiRequest } from "../lib/api";
-import { formatTime } from "../lib/format";
+import { useObjectUrl } from "../hooks/useObjectUrl";
+import { useOutbox } from "../hooks/useOutbox";
+import { apiRequest, isOfflineError } from "../lib/api";
+import { submitCheckin, type CheckinSubmission } from "../lib/checkin";
+import { formatTime, formatWorkedHours, getWorkedMinutes } from "../lib/format";
+import { canvasToBlob, fitWithin } from "../lib/image";
+import { findNearestSite, formatDistance } from "../lib/geofence";
+import { localDateKey } from "../lib/calendar";
+import { readLastStatus, saveLastStatus } from "../lib/lastStatus";
+import {
+  livenessFaceBox,
+  livenessPrompts,
+  pickChallenge,
+  runLivenessCheck,
+  type LivenessChallenge,
+  type LivenessResult
+} from "../lib/liveness";
 import { getDeviceLocation, type LocationResult } from "../lib/location";
-import type { AttendanceRecord } from "../types";
+import type { OutboxEntry } from "../lib/outbox";
+import { applyStamp, footerHeightFor } from "../lib/stamp";
+import type { AttendanceRecord, GeofenceMode, LivenessMode, OfficeSite, PhotoStamp } from "../types";
+import LeaveRequestsPanel from "./LeaveRequestsPanel";
+import MyFlagsPanel from "./MyFlagsPanel";
 
 const statusStyles: Record<string, string> = {
   "Checked in": "bg-emerald-100 text-emerald-800",
-  "Not checked in": "bg-rose-100 text-rose-800"
+  "Checked out": "bg-ink-100 text-ink-700",
+  "Waiting to sync": "bg-amber-100 text-amber-800",
+  "Not checked in": "bg-rose-100 text-rose-800",
+  "Status unknown": "bg-ink-100 text-ink-700"
 };
 
+const offlineStatusError = "You're offline and today's status isn't saved on this device. Reconnect to check in.";
+
 export default function UserView({
   dateLabel,
+  userId,
   userName,
   token
 }: {
   dateLabel: string;
+  userId: string;
   userName: string;
   token: string | null;
 }) {
   const [attendance, setAttendance] = useState<AttendanceRecord | null>(null);
   const [loading, setLoading] = useState(true);
+  const [statusKnown, setStatusKnown] = useState(false);
   const [cameraOpen, setCameraOpen] = useState(false);
-  const [snapshot, setSnapshot] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<Blob | null>(null);
+  const [snapshotAt, setSnapshotAt] = useState<string | null>(null);
+  const [snapshotStamp, setSnapshotStamp] = useState<PhotoStamp | null>(null);
+  const [capturing, setCapturing] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
   const [location, setLocation] = useState<LocationResult | null>(null);
   const [locationError, setLocationError] = useState("");
   const [locationChecking, setLocationChecking] = useState(false);
   const [locationSource, setLocationSource] = useState<"gps" | "network" | null>(null);
+  const [sites, setSites] = useState<OfficeSite[]>([]);
+  const [geofenceMode, setGeofenceMode] = useState<GeofenceMode>("warn");
+  const [livenessMode, setLivenessMode] = useState<LivenessMode>("off");
+  const [livenessChallenge, setLivenessChallenge] = useState<LivenessChallenge | null>(null);
+  const [livenessRunning, setLivenessRunning] = useState(false);
+  const [livenessProgress, setLivenessProgress] = useState(0);
+  const [liveness, setLiveness] = useState<LivenessResult | null>(null);
+  const {
+    entries: outbox,
+    syncing,
+    enqueue,
+    discard
+  } = useOutbox(token, userId, (record) => {
+    setAttendance(record);
+    setNotice("");
+  });
+  const pendingCount = outbox.filter((entry) => !entry.failed).length;
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const snapshotUrl = useObjectUrl(snapshot);
   const streamRef = useRef<MediaStream | null>(null);
 
   const stopStream = () => {
@@ -43,19 +93,75 @@ export default function UserView({
       return;
     }
 
-    setLoading(true);
-    apiRequest<{ date: string; items: AttendanceRecord[] }>("/attendance/today", { token })
+    const load = () => {
+      setLoading(true);
+      apiRequest<{ date: string; items: AttendanceRecord[] }>("/attendance/today", { token })
+        .then((data) => {
+          setAttendance(data.items[0] ?? null);
+          setStatusKnown(true);
+          setError((current) => (current === offlineStatusError ? "" : current));
+        })
+        .catch((err) => {
+          // Offline, fall back to today's status saved on this device rather than assuming no check-in.
+          const lastStatus = isOfflineError(err) ? readLastStatus() : null;
+          if (lastStatus && lastStatus.userId === userId) {
+            setAttendance(lastStatus.attendance);
+            setStatusKnown(true);
+          } else if (isOfflineError(err)) {
+            setError(offlineStatusError);
+          } else {
+            setError(err instanceof Error ? err.message : "Unable to load attendance");
+          }
+        })
+        .finally(() => {
+          setLoading(false);
+        });
+    };
+
+    load();
+    window.addEventListener("online", load);
+    return () => {
+      window.removeEventListener("online", load);
+    };
+  }, [token, userId]);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    apiRequest<{ items: OfficeSite[]; geofenceMode?: GeofenceMode }>("/sites", { token })
       .then((data) => {
-        setAttendance(data.items[0] ?? null);
+        setSites(data.items.filter((site) => !site.archivedAt));
+        setGeofenceMode(data.geofenceMode ?? "warn");
       })
-      .catch((err) => {
-        setError(err instanceof Error ? err.message : "Unable to load attendance");
+      .catch(() => {
+        setSites([]);
+      });
+
+    apiRequest<{ livenessMode?: LivenessMode }>("/settings", { token })
+      .then((data) => {
+        setLivenessMode(data.livenessMode ?? "off");
       })
-      .finally(() => {
-        setLoading(false);
+      .catch(() => {
+        setLivenessMode("off");
       });
   }, [token]);
 
+  useEffect(() => {
+    if (!statusKnown) {
+      return;
+    }
+    saveLastStatus({
+      userId,
+      userName,
+      date: localDateKey(new Date().toISOString()),
+      attendance,
+      pendingSync: pendingCount,
+      savedAt: new Date().toISOString()
+    });
+  }, [statusKnown, attendance, pendingCount, userId, userName]);
+
   useEffect(() => {
     if (!cameraOpen) {
       stopStream();
@@ -92,27 +198,108 @@ export default function UserView({
     };
   }, [cameraOpen]);
 
-  const statusLabel = attendance ? "Checked in" : "Not checked in";
+  const captureStep: "check-in" | "check-out" | "done" = !attendance
+    ? "check-in"
+    : attendance.checkedOutAt
+      ? "done"
+      : "check-out";
+  const geofence = captureStep === "check-in" && location ? findNearestSite(location, sites) : null;
+  const livenessActive = livenessMode !== "off" && captureStep === "check-in";
+  // With liveness required the photo is taken by the check itself, so there is no separate capture.
+  const captureLocked = livenessActive && livenessMode === "required";
+  const geofenceBlocked = Boolean(geofence && !geofence.inside && geofenceMode === "block");
+  // Entries the server rejected stay visible with its message but no longer block new captures.
+  const queuedEntry = outbox.filter((entry) => !entry.failed).pop() ?? null;
+  const failedEntry = outbox.find((entry) => entry.failed) ?? null;
+  const queuedPhotoUrl = useObjectUrl(queuedEntry?.photo);
+  const statusLabel = queuedEntry
+    ? "Waiting to sync"
+    : !statusKnown
+      ? "Status unknown"
+      : !attendance
+        ? "Not checked in"
+        : attendance.checkedOutAt
+          ? "Checked out"
+          : "Checked in";
   const statusClass = statusStyles[statusLabel];
   const capturedTime = attendance ? formatTime(attendance.capturedAt, attendance.timezone) : "--";
+  const queuedTime = queuedEntry ? formatTime(queuedEntry.capturedAt) : "--";
+  const checkedOutTime = attendance?.checkedOutAt
+    ? formatTime(attendance.checkedOutAt, attendance.timezone)
+    : "--";
+  const workedHours = attendance
+    ? formatWorkedHours(getWorkedMinutes(attendance.capturedAt, attendance.checkedOutAt))
+    : "--";
 
   const checkinEvents = [
     {
       label: "Photo captured",
-      value: attendance ? "Saved" : snapshot ? "Ready" : cameraOpen ? "Capturing" : "Pending"
+      value: attendance
+        ? "Saved"
+        : queuedEntry
+          ? "Stored on device"
+          : snapshot
+            ? "Ready"
+            : cameraOpen
+              ? "Capturing"
+              : "Pending"
     },
     {
       label: "Location verified",
-      value: attendance ? "Recorded" : "Pending"
+      value: attendance ? "Recorded" : queuedEntry ? "Captured" : "Pending"
     },
     {
       label: "Time recorded",
-      value: attendance ? capturedTime : "--"
-    }
+      value: attendance ? capturedTime : queuedTime
+    },
+    {
+      label: "Upload",
+      value: queuedEntry
+        ? syncing
+          ? "Syncing..."
+          : `Queued offline${queuedEntry.attempts > 0 ? ` (${queuedEntry.attempts} retries)` : ""}`
+        : attendance?.delayedSync
+          ? "Synced late"
+          : attendance
+            ? "Sent"
+            : "Pending"
+    },
+    {
+      label: "Clock-out",
+      value:
+        captureStep === "done"
+          ? checkedOutTime
+          : captureStep === "check-out"
+            ? snapshot
+              ? "Ready"
+              : cameraOpen
+                ? "Capturing"
+                : "Pending"
+            : "--"
+    },
+    {
+      label: "Hours worked",
+      value: workedHours
+    },
+    ...(livenessMode !== "off" || attendance?.livenessScore !== undefined
+      ? [
+          {
+            label: "Liveness",
+            value: formatLiveness(
+              attendance
+                ? attendance.livenessPassed === undefined
+                  ? null
+                  : { passed: attendance.livenessPassed, confidence: attendance.livenessScore ?? 0 }
+                : liveness,
+              Boolean(attendance)
+            )
+          }
+        ]
+      : [])
   ];
 
   const toggleCamera = () => {
-    if (attendance) {
+    if (captureStep === "done" || queuedEntry) {
       return;
     }
     setError("");
@@ -121,26 +308,97 @@ export default function UserView({
       return;
     }
     setSnapshot(null);
+    // A failed check goes with the retaken photo; only a new check replaces it.
+    setLiveness((current) => (current?.passed === false ? current : null));
+    setLivenessChallenge(null);
+    setLivenessProgress(0);
     setCameraOpen(true);
   };
 
-  const capturePhoto = () => {
+  const resetLiveness = () => {
+    setLiveness(null);
+    setLivenessChallenge(null);
+    setLivenessProgress(0);
+  };
+
+  const startLivenessCheck = async () => {
     const video = videoRef.current;
-    if (!video) {
+    if (!video || livenessRunning) {
       return;
     }
+    const challenge = pickChallenge(livenessChallenge ?? undefined);
+    setLivenessChallenge(challenge);
+    setLiveness(null);
+    setLivenessProgress(0);
+    setLivenessRunning(true);
+    setError("");
+    let result: LivenessResult | null = null;
+    try {
+      result = await runLivenessCheck(video, challenge, setLivenessProgress);
+      setLiveness(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Liveness check failed.");
+    } finally {
+      setLivenessRunning(false);
+    }
+    // The submitted photo is the frame at the end of the challenge, so a pass cannot be reused later.
+    // With liveness required a failed check still takes the photo, and the failure goes on the record.
+    if (result && (result.passed || captureLocked)) {
+      await capturePhoto(result);
+    }
+  };
 
+  const capturePhoto = async (checkResult?: LivenessResult) => {
+    const video = videoRef.current;
+    if (!video || (captureLocked && !checkResult) || livenessRunning || capturing) {
+      return;
+    }
+
+    const capturedAt = new Date().toISOString();
+    const { width, height } = fitWithin(video.videoWidth || 720, video.videoHeight || 1280);
     const canvas = document.createElement("canvas");
-    canvas.width = video.videoWidth || 720;
-    canvas.height = video.videoHeight || 1280;
+    canvas.width = width;
+    canvas.height = height + footerHeightFor(width);
     const ctx = canvas.getContext("2d");
     if (!ctx) {
       return;
     }
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const dataUrl = canvas.toDataURL("image/jpeg", 0.9);
-    setSnapshot(dataUrl);
-    setCameraOpen(false);
+    ctx.drawImage(video, 0, 0, width, height);
+    setCapturing(true);
+    setError("");
+    // The stamp needs coordinates, and the record must carry the same ones.
+    let stampLocation: LocationResult;
+    try {
+      stampLocation = location ?? (await getDeviceLocation());
+    } catch (locationErr) {
+      const message = locationErr instanceof Error ? locationErr.message : "Unable to read location.";
+      setError(message);
+      setLocationError(message);
+      setCapturing(false);
+      return;
+    }
+    setLocation(stampLocation);
+    if (!locationSource) {
+      setLocationSource(stampLocation.source);
+    }
+    try {
+      const stamp = await applyStamp(canvas, height, {
+        userName,
+        capturedAt,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        location: stampLocation
+      });
+      setSnapshot(await canvasToBlob(canvas));
+      setSnapshotAt(capturedAt);
+      setSnapshotStamp(stamp);
+      // A manual capture keeps an earlier failed check, but never an earlier pass made on another frame.
+      setLiveness(checkResult ?? (liveness?.passed === false ? liveness : null));
+      setCameraOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to capture photo.");
+    } finally {
+      setCapturing(false);
+    }
   };
 
   const checkLocation = async () => {
@@ -194,6 +452,7 @@ export default function UserView({
       return;
     }
     setUploading(true);
+    setUploadProgress(0);
     setError("");
 
     try {
@@ -211,34 +470,61 @@ export default function UserView({
         setUploading(false);
         return;
       }
-      const upload = await apiRequest<{ url: string; publicId: string }>("/uploads/photo", {
-        method: "POST",
-        token,
-        body: { dataUrl: snapshot }
-      });
-
-      const record = await apiRequest<AttendanceRecord>("/attendance", {
-        method: "POST",
-        token,
-        body: {
-          locationLabel: resolvedLocation.label,
-          latitude: resolvedLocation.latitude,
-          longitude: resolvedLocation.longitude,
-          accuracy: resolvedLocation.accuracy,
-          photoUrl: upload.url,
-          photoPublicId: upload.publicId
+      // An early hint only: the server matches the site and enforces block mode from the raw coordinates.
+      const fence = attendance ? null : findNearestSite(resolvedLocation, sites);
+      if (fence && !fence.inside && geofenceMode === "block") {
+        setLocation(resolvedLocation);
+        setError(
+          `You are ${formatDistance(fence.distance)} from ${fence.site.name}. Check-ins must be within ${fence.site.radiusMeters}m.`
+        );
+        setUploading(false);
+        return;
+      }
+      const submission: CheckinSubmission = {
+        kind: attendance ? "check-out" : "check-in",
+        attendanceId: attendance?.id,
+        photo: snapshot,
+        location: resolvedLocation,
+        capturedAt: snapshotAt ?? new Date().toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        liveness: livenessActive ? liveness ?? undefined : undefined,
+        stamp: snapshotStamp ?? undefined
+      };
+
+      let record: AttendanceRecord;
+      try {
+        record = await submitCheckin(token, userId, submission, { onUploadProgress: setUploadProgress });
+      } catch (submitError) {
+        if (!isOfflineError(submitError)) {
+          throw submitError;
         }
-      });
+        await enqueue(submission);
+        setSnapshot(null);
+        setSnapshotAt(null);
+        setSnapshotStamp(null);
+        resetLiveness();
+        setNotice("You're offline. The capture is saved on this device and will sync automatically.");
+        return;
+      }
 
       setAttendance(record);
-      setLocation({
-        label: record.locationLabel,
-        latitude: record.latitude ?? resolvedLocation.latitude,
-        longitude: record.longitude ?? resolvedLocation.longitude,
-        accuracy: record.accuracy ?? resolvedLocation.accuracy,
-        source: locationSource ?? "gps"
-      });
+      if (submission.kind === "check-out") {
+        setLocation({
+          label: record.checkoutLocationLabel ?? resolvedLocation.label,
+          latitude: record.checkoutLatitude ?? resolvedLocation.latitude,
+          longitude: record.checkoutLongitude ?? resolvedLocation.longitude,
+          accuracy: record.checkoutAccuracy ?? resolvedLocation.accuracy,
+          source: locationSource ?? "gps"
+        });
+      } else {
+        // Clock-out needs a fresh fix, so the check-in position is not reused.
+        setLocation(null);
+        setLocationSource(null);
+      }
       setSnapshot(null);
+      setSnapshotAt(null);
+      setSnapshotStamp(null);
+      resetLiveness();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Upload failed");
     } finally {
@@ -248,9 +534,22 @@ export default function UserView({
 
   const handleRetake = () => {
     setSnapshot(null);
+    setSnapshotAt(null);
+    setSnapshotStamp(null);
+    resetLiveness();
     setCameraOpen(true);
   };
 
+  const handleDiscardQueued = async (entry: OutboxEntry) => {
+    setError("");
+    try {
+      await discard(entry.id);
+      setNotice("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to discard queued capture");
+    }
+  };
+
   const handleDelete = async () => {
     if (!attendance || !token) {
       return;
@@ -260,6 +559,8 @@ export default function UserView({
     try {
       await apiRequest<void>(`/attendance/${attendance.id}`, { method: "DELETE", token });
       setAttendance(null);
+      setLocation(null);
+      setLocationSource(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to delete entry");
     } finally {
@@ -267,8 +568,25 @@ export default function UserView({
     }
   };
 
-  const previewImage = snapshot ?? attendance?.photoUrl ?? null;
-  const primaryLabel = attendance ? "Checked in" : cameraOpen ? "Close camera" : "Open camera";
+  const previewImage =
+    snapshotUrl ?? queuedPhotoUrl ?? attendance?.checkoutPhotoUrl ?? attendance?.photoUrl ?? null;
+  const primaryLabel =
+    captureStep === "done"
+      ? "Checked out"
+      : cameraOpen
+        ? "Close camera"
+        : captureStep === "check-out"
+          ? "Open camera to clock out"
+          : "Open camera";
+  const statusDetail = queuedEntry
+    ? `${queuedEntry.kind === "check-out" ? "Clock-out" : "Check-in"} captured at ${queuedTime}, waiting for a connection.`
+    : captureStep === "done"
+      ? `Checked in at ${capturedTime}, out at ${checkedOutTime}.`
+      : captureStep === "check-out"
+        ? `Checked in at ${capturedTime}. Clock out before you leave.`
+        : statusKnown
+          ? "No photo recorded yet."
+          : "Reconnect to load today's status before capturing.";
 
   return (
     <div className="grid gap-6 lg:grid-cols-[1.1fr_0.9fr]">
@@ -279,7 +597,7 @@ export default function UserView({
               <p className="text-sm font-semibold text-ink-500">{dateLabel}</p>
               <h2 className="mt-2 text-3xl font-semibold text-ink-900">Good morning, {userName}.</h2>
               <p className="mt-2 text-ink-600">
-                One photo per day. Delete and retake if needed. Location must be verified.
+                One photo in, one photo out. Delete and retake if needed. Location must be verified.
               </p>
             </div>
             <span className="rounded-full bg-ink-100 px-3 py-1 text-xs font-semibold text-ink-700">
@@ -296,9 +614,7 @@ export default function UserView({
                 </span>
                 <span className="text-sm text-ink-600">Today</span>
               </div>
-              <p className="mt-3 text-sm text-ink-600">
-                {attendance ? `Checked in at ${capturedTime}.` : "No photo recorded yet."}
-              </p>
+              <p className="mt-3 text-sm text-ink-600">{statusDetail}</p>
             </div>
 
             <div className="rounded-2xl border border-ink-100 bg-ink-50 p-4">
@@ -306,7 +622,7 @@ export default function UserView({
               <div className="mt-3 flex items-center gap-2">
                 <span className="h-2 w-2 rounded-full bg-emerald-500"></span>
                 <span className="text-sm font-semibold text-ink-800">
-                  {attendance
+                  {captureStep === "done"
                     ? "Captured"
                     : location
                       ? "Location ready"
@@ -316,17 +632,29 @@ export default function UserView({
                 </span>
               </div>
               <p className="mt-3 text-sm text-ink-600">
-                {attendance?.locationLabel ??
+                {(captureStep === "done" ? attendance?.checkoutLocationLabel : undefined) ??
                   location?.label ??
+                  attendance?.locationLabel ??
                   locationError ??
                   "Enable location access for accuracy."}
               </p>
-              {!attendance && (
+              {geofence && (
+                <p className={`mt-2 text-xs font-semibold ${geofence.inside ? "text-emerald-700" : "text-rose-700"}`}>
+                  {geofence.inside
+                    ? `Within ${geofence.site.name} (${formatDistance(geofence.distance)} away).`
+                    : `${formatDistance(geofence.distance)} from ${geofence.site.name}, outside the ${geofence.site.radiusMeters}m radius. ${
+                        geofenceMode === "block"
+                          ? "Move closer to check in."
+                          : "Your check-in will be marked as outside the office."
+                      }`}
+                </p>
+              )}
+              {captureStep !== "done" && (
                 <div className="mt-3 grid gap-2">
                   <button
                     className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-xs font-semibold text-ink-700 transition hover:bg-ink-50 disabled:opacity-60"
                     onClick={checkLocation}
-                    disabled={locationChecking || uploading}
+                    disabled={locationChecking || uploading || Boolean(snapshot)}
                   >
                     {locationChecking
                       ? "Checking..."
@@ -340,7 +668,7 @@ export default function UserView({
                     <button
                       className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-xs font-semibold text-ink-700 transition hover:bg-ink-50 disabled:opacity-60"
                       onClick={useNetworkLocation}
-                      disabled={locationChecking || uploading}
+                      disabled={locationChecking || uploading || Boolean(snapshot)}
                     >
                       Use network location (approx)
                     </button>
@@ -358,7 +686,7 @@ export default function UserView({
           <button
             className="mt-6 w-full rounded-2xl bg-ink-900 px-6 py-4 text-base font-semibold text-white transition hover:bg-ink-800 disabled:opacity-60"
             onClick={toggleCamera}
-            disabled={Boolean(attendance) || uploading}
+            disabled={!statusKnown || captureStep === "done" || Boolean(queuedEntry) || uploading}
           >
             {primaryLabel}
           </button>
@@ -376,12 +704,57 @@ export default function UserView({
               {cameraOpen ? (
                 <>
                   <video ref={videoRef} autoPlay playsInline muted className="h-full w-full object-cover" />
-                  <button
-                    className="absolute bottom-3 rounded-full bg-white px-4 py-2 text-xs font-semibold text-ink-900 shadow-soft"
-                    onClick={capturePhoto}
-                  >
-                    Capture
-                  </button>
+                  {livenessActive && (
+                    <div
+                      className="pointer-events-none absolute rounded-[45%] border-2 border-dashed border-white/70"
+                      style={{
+                        left: `${livenessFaceBox.x0 * 100}%`,
+                        top: `${livenessFaceBox.y0 * 100}%`,
+                        width: `${(livenessFaceBox.x1 - livenessFaceBox.x0) * 100}%`,
+                        height: `${(livenessFaceBox.y1 - livenessFaceBox.y0) * 100}%`
+                      }}
+                    ></div>
+                  )}
+                  {livenessActive && (livenessChallenge || liveness) && (
+                    <div className="absolute inset-x-3 top-3 rounded-2xl bg-ink-900/80 px-3 py-2 text-xs text-white">
+                      {livenessRunning && livenessChallenge ? (
+                        <>
+                          <p className="font-semibold">{livenessPrompts[livenessChallenge]}</p>
+                          <div className="mt-2 h-1 w-full overflow-hidden rounded-full bg-white/20">
+                            <div className="h-full bg-white" style={{ width: `${livenessProgress * 100}%` }}></div>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="font-semibold">{formatLiveness(liveness, false)}</p>
+                      )}
+                    </div>
+                  )}
+                  <div className="absolute bottom-3 flex gap-2">
+                    {livenessActive && (
+                      <button
+                        className="rounded-full bg-ink-900 px-4 py-2 text-xs font-semibold text-white shadow-soft disabled:opacity-60"
+                        onClick={startLivenessCheck}
+                        disabled={livenessRunning || capturing}
+                      >
+                        {livenessRunning
+                          ? "Checking..."
+                          : capturing && captureLocked
+                            ? "Stamping..."
+                            : liveness
+                              ? "Try again"
+                              : "Start liveness check"}
+                      </button>
+                    )}
+                    {!captureLocked && (
+                      <button
+                        className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-ink-900 shadow-soft disabled:opacity-60"
+                        onClick={() => capturePhoto()}
+                        disabled={livenessRunning || capturing}
+                      >
+                        {capturing ? "Stamping..." : "Capture"}
+                      </button>
+                    )}
+                  </div>
                 </>
               ) : previewImage ? (
                 <img src={previewImage} alt="Attendance preview" className="h-full w-full object-cover" />
@@ -406,15 +779,64 @@ export default function UserView({
                 </div>
               )}
 
-              {snapshot && !attendance && (
+              {notice && (
+                <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  {notice}
+                </div>
+              )}
+
+              {queuedEntry && (
+                <div className="grid gap-2">
+                  {queuedEntry.lastError && (
+                    <p className="text-xs text-ink-500">Last sync attempt: {queuedEntry.lastError}</p>
+                  )}
+                  <button
+                    className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm font-semibold text-ink-700 transition hover:bg-ink-50 disabled:opacity-60"
+                    onClick={() => handleDiscardQueued(queuedEntry)}
+                    disabled={syncing}
+                  >
+                    Discard queued capture
+                  </button>
+                </div>
+              )}
+
+              {failedEntry && (
+                <div className="grid gap-2">
+                  <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+                    {failedEntry.kind === "check-out" ? "Clock-out" : "Check-in"} captured at{" "}
+                    {formatTime(failedEntry.capturedAt)} was rejected: {failedEntry.lastError ?? "Sync failed"}
+                  </div>
+                  <button
+                    className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm font-semibold text-ink-700 transition hover:bg-ink-50 disabled:opacity-60"
+                    onClick={() => handleDiscardQueued(failedEntry)}
+                    disabled={syncing}
+                  >
+                    Discard rejected capture
+                  </button>
+                </div>
+              )}
+
+              {snapshot && captureStep !== "done" && (
                 <div className="grid gap-2">
                   <button
                     className="w-full rounded-2xl bg-ink-900 px-4 py-3 text-sm font-semibold text-white transition hover:bg-ink-800 disabled:opacity-60"
                     onClick={handleUploadAndSave}
-                    disabled={uploading}
+                    disabled={uploading || geofenceBlocked}
                   >
-                    {uploading ? "Uploading..." : "Upload & Save"}
+                    {uploading
+                      ? `Uploading ${Math.round(uploadProgress * 100)}%...`
+                      : captureStep === "check-out"
+                        ? "Upload & Clock out"
+                        : "Upload & Save"}
                   </button>
+                  {uploading && (
+                    <div className="h-1 w-full overflow-hidden rounded-full bg-ink-100">
+                      <div
+                        className="h-full bg-ink-900 transition-all"
+                        style={{ width: `${uploadProgress * 100}%` }}
+                      ></div>
+                    </div>
+                  )}
                   <button
                     className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm font-semibold text-ink-700 transition hover:bg-ink-50"
                     onClick={handleRetake}
@@ -425,7 +847,7 @@ export default function UserView({
                 </div>
               )}
 
-              {attendance && (
+              {attendance && !snapshot && !queuedEntry && (
                 <button
                   className="w-full rounded-2xl border border-ink-200 px-4 py-3 text-sm font-semibold text-ink-700 transition hover:bg-ink-50 disabled:opacity-60"
                   onClick={handleDelete}
@@ -461,12 +883,24 @@ export default function UserView({
         <div className="rounded-3xl bg-white p-6 shadow-soft">
           <h3 className="text-lg font-semibold text-ink-900">Today&#39;s rules</h3>
           <ul className="mt-4 space-y-3 text-sm text-ink-600">
-            <li>One check-in per day. Delete to retake.</li>
+            <li>One check-in and one clock-out per day. Delete to retake.</li>
             <li>Photo capture only from in-app camera.</li>
             <li>GPS must be within the office radius.</li>
+            {livenessMode === "required" && <li>A quick liveness check is required before check-in.</li>}
           </ul>
         </div>
+
+        <MyFlagsPanel token={token} />
+        <LeaveRequestsPanel token={token} />
       </aside>
     </div>
   );
 }
+
+function formatLiveness(result: Pick<LivenessResult, "passed" | "confidence"> | null, recorded: boolean) {
+  if (!result) {
+    return recorded ? "Not checked" : "Pending";
+  }
+  const score = `${Math.round(result.confidence * 100)}%`;
+  return result.passed ? `Passed (${score})` : `Failed (${score})`;
+}
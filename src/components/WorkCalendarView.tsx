@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ChangeEvent } from "react";
+import { apiRequest } from "../lib/api";
+import { defaultWorkCalendar, parseIcs, weekdayLabels, type ImportedHoliday } from "../lib/calendar";
+import type { Holiday, WorkCalendar } from "../types";
+
+// Monday-first, matching how most rosters are planned.
+const weekOrder = [1, 2, 3, 4, 5, 6, 0];
+
+export default function WorkCalendarView({ token }: { token: string | null }) {
+  const [calendar, setCalendar] = useState<WorkCalendar>(defaultWorkCalendar);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [draftDate, setDraftDate] = useState("");
+  const [draftName, setDraftName] = useState("");
+  const [imported, setImported] = useState<ImportedHoliday[]>([]);
+  const [year, setYear] = useState(() => String(new Date().getFullYear()));
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    setLoading(true);
+    apiRequest<WorkCalendar>("/admin/calendar", { token })
+      .then((data) => {
+        setCalendar(data);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load work calendar");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [token]);
+
+  const years = useMemo(() => {
+    const values = new Set(calendar.holidays.map((holiday) => holiday.date.slice(0, 4)));
+    values.add(String(new Date().getFullYear()));
+    return Array.from(values).sort();
+  }, [calendar.holidays]);
+
+  const visibleHolidays = useMemo(
+    () =>
+      calendar.holidays
+        .filter((holiday) => holiday.date.startsWith(year))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    [calendar.holidays, year]
+  );
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleDay = (weekday: number) => {
+    if (!token) {
+      return;
+    }
+    const workingDays = calendar.workingDays.includes(weekday)
+      ? calendar.workingDays.filter((day) => day !== weekday)
+      : [...calendar.workingDays, weekday].sort((a, b) => a - b);
+    if (workingDays.length === 0) {
+      setError("Keep at least one working day.");
+      return;
+    }
+    run(async () => {
+      const data = await apiRequest<{ workingDays: number[] }>("/admin/calendar/working-days", {
+        method: "PUT",
+        token,
+        body: { workingDays }
+      });
+      setCalendar((prev) => ({ ...prev, workingDays: data.workingDays }));
+    }, "Unable to update working week.");
+  };
+
+  const handleAddHoliday = () => {
+    if (!token) {
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draftDate) || draftName.trim().length < 2) {
+      setError("Enter a date and a holiday name.");
+      return;
+    }
+    run(async () => {
+      const holiday = await apiRequest<Holiday>("/admin/holidays", {
+        method: "POST",
+        token,
+        body: { date: draftDate, name: draftName.trim() }
+      });
+      setCalendar((prev) => ({ ...prev, holidays: [...prev.holidays, holiday] }));
+      setDraftDate("");
+      setDraftName("");
+    }, "Unable to add holiday.");
+  };
+
+  const handleRemoveHoliday = (holiday: Holiday) => {
+    if (!token) {
+      return;
+    }
+    run(async () => {
+      await apiRequest<void>(`/admin/holidays/${holiday.id}`, { method: "DELETE", token });
+      setCalendar((prev) => ({ ...prev, holidays: prev.holidays.filter((item) => item.id !== holiday.id) }));
+    }, "Unable to remove holiday.");
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setError("");
+    setNotice("");
+    const existing = new Set(calendar.holidays.map((holiday) => holiday.date));
+    // Recurring holidays are expanded for this year and next.
+    const year = new Date().getFullYear();
+    const { holidays, unsupported } = parseIcs(await file.text(), { start: `${year}-01-01`, end: `${year + 1}-12-31` });
+    const parsed = holidays.filter((holiday) => !existing.has(holiday.date));
+    const skipped = unsupported.length
+      ? `Skipped ${unsupported.length} recurring event(s) with rules that can't be imported: ${unsupported.join(", ")}.`
+      : "";
+    setImported(parsed);
+    if (parsed.length === 0) {
+      setError(["No new holidays found in that file.", skipped].filter(Boolean).join(" "));
+      return;
+    }
+    setError(skipped);
+  };
+
+  const handleConfirmImport = () => {
+    if (!token) {
+      return;
+    }
+    run(async () => {
+      const data = await apiRequest<{ items: Holiday[] }>("/admin/holidays/import", {
+        method: "POST",
+        token,
+        body: { items: imported }
+      });
+      setCalendar((prev) => ({ ...prev, holidays: [...prev.holidays, ...data.items] }));
+      setNotice(`Imported ${data.items.length} holiday(s).`);
+      setImported([]);
+    }, "Unable to import holidays.");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-3xl bg-white p-6 shadow-soft">
+        <p className="text-xs uppercase tracking-[0.2em] text-ink-500">Schedule</p>
+        <h2 className="mt-2 text-3xl font-semibold text-ink-900">Work calendar</h2>
+        <p className="mt-2 text-ink-600">
+          Weekends and holidays are skipped when counting missing staff, punctuality and exports.
+        </p>
+        <p className="mt-6 text-xs uppercase tracking-[0.2em] text-ink-500">Working week</p>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {weekOrder.map((weekday) => {
+            const active = calendar.workingDays.includes(weekday);
+            return (
+              <button
+                key={weekday}
+                className={`rounded-full px-4 py-2 text-sm font-semibold transition disabled:opacity-60 ${
+                  active ? "bg-ink-900 text-white" : "border border-ink-200 text-ink-600"
+                }`}
+                onClick={() => handleToggleDay(weekday)}
+                disabled={saving || loading}
+                type="button"
+              >
+                {weekdayLabels[weekday]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1.3fr)_minmax(0,0.7fr)]">
+        <div className="rounded-3xl bg-white p-6 shadow-soft">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-semibold text-ink-900">Holidays</h3>
+            <select
+              className="rounded-full border border-ink-200 px-4 py-2 text-sm text-ink-700"
+              value={year}
+              onChange={(event) => setYear(event.target.value)}
+            >
+              {years.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+          <ul className="mt-4 divide-y divide-ink-100 rounded-2xl border border-ink-100">
+            {loading && <li className="px-4 py-3 text-sm text-ink-500">Loading holidays...</li>}
+            {!loading && visibleHolidays.length === 0 && (
+              <li className="px-4 py-3 text-sm text-ink-500">No holidays in {year}.</li>
+            )}
+            {visibleHolidays.map((holiday) => (
+              <li key={holiday.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+                <div>
+                  <p className="font-semibold text-ink-900">{holiday.name}</p>
+                  <p className="text-xs text-ink-500">
+                    {new Date(`${holiday.date}T00:00:00Z`).toLocaleDateString("en-US", {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                      timeZone: "UTC"
+                    })}
+                  </p>
+                </div>
+                <button
+                  className="text-xs font-semibold text-rose-600 disabled:opacity-60"
+                  onClick={() => handleRemoveHoliday(holiday)}
+                  disabled={saving}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-6">
+          <div className="rounded-3xl bg-white p-6 shadow-soft">
+            <h3 className="text-lg font-semibold text-ink-900">Add holiday</h3>
+            <div className="mt-4 space-y-3">
+              <input
+                type="date"
+                className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                value={draftDate}
+                onChange={(event) => setDraftDate(event.target.value)}
+              />
+              <input
+                className="w-full rounded-2xl border border-ink-200 px-4 py-2 text-sm text-ink-700"
+                placeholder="Holiday name"
+                value={draftName}
+                onChange={(event) => setDraftName(event.target.value)}
+              />
+              <button
+                className="w-full rounded-2xl bg-ink-900 px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+                onClick={handleAddHoliday}
+                disabled={saving || !token}
+              >
+                Add holiday
+              </button>
+            </div>
+          </div>
+
+          <div className="rounded-3xl bg-white p-6 shadow-soft">
+            <h3 className="text-lg font-semibold text-ink-900">Import calendar</h3>
+            <p className="mt-1 text-sm text-ink-600">Upload an .ics file exported from a public holiday calendar.</p>
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="mt-4 block w-full text-sm text-ink-600"
+              onChange={handleFileChange}
+            />
+            {imported.length > 0 && (
+              <div className="mt-4">
+                <ul className="max-h-48 space-y-1 overflow-y-auto text-sm text-ink-700">
+                  {imported.map((holiday) => (
+                    <li key={holiday.date} className="flex justify-between gap-3">
+                      <span>{holiday.name}</span>
+                      <span className="text-ink-500">{holiday.date}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-3 flex gap-2">
+                  <button
+                    className="rounded-full bg-ink-900 px-4 py-2 text-xs font-semibold text-white disabled:opacity-60"
+                    onClick={handleConfirmImport}
+                    disabled={saving}
+                  >
+                    Import {imported.length}
+                  </button>
+                  <button
+                    className="rounded-full border border-ink-200 px-4 py-2 text-xs font-semibold text-ink-700"
+                    onClick={() => setImported([])}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {notice && (
+        <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,17 @@
 import { useEffect, useState } from "react";
-import { apiRequest } from "../lib/api";
+import { apiRequest, isOfflineError } from "../lib/api";
+import {
+  deviceRegistration,
+  hasDeviceKey,
+  prepareDeviceKey,
+  saveDeviceKey,
+  type PendingDeviceKey
+} from "../lib/deviceKey";
+import { clearLastStatus } from "../lib/lastStatus";
 import type { Role, User } from "../types";
 
 const TOKEN_KEY = "attendance_token";
+const USER_KEY = "attendance_user";
 
 type LoginPayload = { email: string; password: string };
 
@@ -12,6 +21,7 @@ export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionNotice, setSessionNotice] = useState("");
 
   useEffect(() => {
     const stored = window.localStorage.getItem(TOKEN_KEY);
@@ -23,10 +33,26 @@ export function useAuth() {
     const load = async () => {
       try {
         const data = await apiRequest<{ user: User }>("/me", { token: stored });
+        // Employees sign check-ins with a key registered at login; a session from before that signs in again.
+        if (data.user.role === "user" && !(await hasDeviceKey(data.user.id))) {
+          window.localStorage.removeItem(TOKEN_KEY);
+          window.localStorage.removeItem(USER_KEY);
+          setSessionNotice("Sign in again to register this device for check-ins.");
+          return;
+        }
         setUser(data.user);
         setToken(stored);
+        window.localStorage.setItem(USER_KEY, JSON.stringify(data.user));
       } catch (err) {
-        window.localStorage.removeItem(TOKEN_KEY);
+        // Keep the session while offline so queued check-ins can still be captured.
+        const cachedUser = isOfflineError(err) ? readCachedUser() : null;
+        if (cachedUser) {
+          setUser(cachedUser);
+          setToken(stored);
+        } else {
+          window.localStorage.removeItem(TOKEN_KEY);
+          window.localStorage.removeItem(USER_KEY);
+        }
       } finally {
         setLoading(false);
       }
@@ -36,23 +62,31 @@ export function useAuth() {
   }, []);
 
   const login = async (payload: LoginPayload) => {
+    const deviceKey = await prepareDeviceKey();
     const data = await apiRequest<{ token: string; user: User }>("/auth/login", {
       method: "POST",
-      body: payload
+      body: { ...payload, device: deviceKey ? deviceRegistration(deviceKey) : undefined }
     });
     setUser(data.user);
     setToken(data.token);
     window.localStorage.setItem(TOKEN_KEY, data.token);
+    window.localStorage.setItem(USER_KEY, JSON.stringify(data.user));
+    storeDeviceKey(data.user, deviceKey);
+    setSessionNotice("");
   };
 
   const signup = async (payload: SignupPayload) => {
+    const deviceKey = await prepareDeviceKey();
     const data = await apiRequest<{ token: string; user: User }>("/auth/signup", {
       method: "POST",
-      body: payload
+      body: { ...payload, device: deviceKey ? deviceRegistration(deviceKey) : undefined }
     });
     setUser(data.user);
     setToken(data.token);
     window.localStorage.setItem(TOKEN_KEY, data.token);
+    window.localStorage.setItem(USER_KEY, JSON.stringify(data.user));
+    storeDeviceKey(data.user, deviceKey);
+    setSessionNotice("");
   };
 
   const logout = async () => {
@@ -66,7 +100,28 @@ export function useAuth() {
     setUser(null);
     setToken(null);
     window.localStorage.removeItem(TOKEN_KEY);
+    window.localStorage.removeItem(USER_KEY);
+    clearLastStatus();
   };
 
-  return { user, token, loading, login, signup, logout };
+  return { user, token, loading, sessionNotice, login, signup, logout };
+}
+
+// Check-ins are signed with the key registered by this login; without it they go unsigned.
+function storeDeviceKey(user: User, key: PendingDeviceKey | null) {
+  if (key) {
+    saveDeviceKey(user.id, key).catch(() => undefined);
+  }
+}
+
+function readCachedUser() {
+  const stored = window.localStorage.getItem(USER_KEY);
+  if (!stored) {
+    return null;
+  }
+  try {
+    return JSON.parse(stored) as User;
+  } catch {
+    return null;
+  }
 }
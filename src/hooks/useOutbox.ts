@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAuthError, isOfflineError, isRejectedError } from "../lib/api";
+import { submitCheckin } from "../lib/checkin";
+import {
+  addOutboxEntry,
+  deleteOutboxEntry,
+  listOutboxEntries,
+  putOutboxEntry,
+  type OutboxEntry
+} from "../lib/outbox";
+import type { AttendanceRecord } from "../types";
+
+const RETRY_INTERVAL_MS = 30000;
+
+export function useOutbox(
+  token: string | null,
+  userId: string,
+  onSynced: (record: AttendanceRecord, entry: OutboxEntry) => void
+) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  // The session the server last refused; entries wait until the user signs in again.
+  const refusedTokenRef = useRef<string | null>(null);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listOutboxEntries(userId));
+    } catch {
+      setEntries([]);
+    }
+  }, [userId]);
+
+  const flush = useCallback(async () => {
+    if (!token || token === refusedTokenRef.current || syncingRef.current || !navigator.onLine) {
+      return;
+    }
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const pending = await listOutboxEntries(userId);
+      for (const entry of pending.filter((item) => !item.failed)) {
+        try {
+          const record = await submitCheckin(token, userId, entry, { delayedSync: true });
+          await deleteOutboxEntry(entry.id);
+          onSyncedRef.current(record, entry);
+        } catch (err) {
+          if (isAuthError(err)) {
+            refusedTokenRef.current = token;
+            await putOutboxEntry({ ...entry, lastError: "Sign in again to sync this capture." });
+            break;
+          }
+          await putOutboxEntry({
+            ...entry,
+            attempts: entry.attempts + 1,
+            lastError: err instanceof Error ? err.message : "Sync failed",
+            failed: isRejectedError(err)
+          });
+          if (isOfflineError(err)) {
+            break;
+          }
+        }
+      }
+    } catch {
+      // Storage unavailable; nothing to sync.
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+  }, [token, userId, refresh]);
+
+  useEffect(() => {
+    refresh().then(flush);
+    window.addEventListener("online", flush);
+    const interval = window.setInterval(flush, RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", flush);
+      window.clearInterval(interval);
+    };
+  }, [refresh, flush]);
+
+  const enqueue = async (entry: Omit<OutboxEntry, "id" | "userId" | "attempts">) => {
+    const stored = await addOutboxEntry({ ...entry, userId });
+    await refresh();
+    return stored;
+  };
+
+  const discard = async (id: string) => {
+    await deleteOutboxEntry(id);
+    await refresh();
+  };
+
+  return { entries, syncing, enqueue, discard, flush };
+}
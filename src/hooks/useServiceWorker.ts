@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { activateWorker, getWorkerVersion, registerServiceWorker } from "../lib/serviceWorker";
+
+export function useServiceWorker() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const [nextVersion, setNextVersion] = useState<string | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(async (worker) => {
+      setWaiting(worker);
+      setNextVersion(await getWorkerVersion(worker));
+    });
+  }, []);
+
+  const applyUpdate = () => {
+    if (waiting) {
+      activateWorker(waiting);
+    }
+  };
+
+  const dismissUpdate = () => {
+    setWaiting(null);
+  };
+
+  return { updateAvailable: Boolean(waiting), nextVersion, applyUpdate, dismissUpdate };
+}
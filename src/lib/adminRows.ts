@@ -0,0 +1,118 @@
+import { formatTime, formatWorkedHours, getWorkedMinutes } from "./format";
+import { formatDistance, resolveRecordSite } from "./geofence";
+import type { HistoryContext } from "./history";
+import { evaluateLateness } from "./punctuality";
+import { findShiftFor } from "./shifts";
+import type { AttendanceRecord, FlagCase, RosterUser, SignatureStatus } from "../types";
+
+export type AdminRow = {
+  id: string;
+  userId: string;
+  name: string;
+  time: string;
+  checkoutTime: string;
+  workedHours: string;
+  status: "On time" | "Late" | "Very late" | "Missing" | "On leave" | "Day off";
+  minutesLate?: number;
+  location: string;
+  locationDetail?: string;
+  accuracy: string;
+  siteId?: string;
+  teamId?: string;
+  siteDistance: string;
+  outsideGeofence: boolean;
+  riskScore?: number;
+  riskReasons?: string[];
+  photoUrl?: string;
+  checkoutPhotoUrl?: string;
+  photoLabel: string;
+  flag?: FlagCase;
+  raw?: AttendanceRecord;
+};
+
+export const signatureLabels: Record<SignatureStatus, { label: string; style: string }> = {
+  verified: { label: "Signature verified", style: "bg-emerald-100 text-emerald-800" },
+  invalid: { label: "Invalid signature", style: "bg-rose-100 text-rose-700" },
+  "unknown-device": { label: "Unknown device", style: "bg-rose-100 text-rose-700" }
+};
+
+export function formatAccuracy(accuracy?: number) {
+  if (typeof accuracy !== "number" || Number.isNaN(accuracy)) {
+    return "--";
+  }
+  return `±${Math.round(accuracy)}m`;
+}
+
+export function initials(name: string) {
+  return name
+    .split(" ")
+    .map((part) => part[0])
+    .filter(Boolean)
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+}
+
+// The check-in is judged against the shift for `date`, falling back to the site cutoff, then the org cutoff.
+export function attendanceRow(
+  item: AttendanceRecord,
+  date: string,
+  context: HistoryContext,
+  teamId?: string
+): AdminRow {
+  const site = resolveRecordSite(item, context.sites);
+  const shift = findShiftFor(item.userId, date, context.shifts);
+  const { status, minutesLate } = evaluateLateness(
+    item,
+    shift?.startTime ?? site?.cutoffTime ?? context.cutoffTime,
+    site?.timezone,
+    context.latenessPolicy,
+    shift?.endTime
+  );
+  const risks = [item.locationRisk, item.checkoutLocationRisk].filter((risk) => risk !== undefined);
+  return {
+    id: item.id,
+    userId: item.userId,
+    name: item.userName,
+    time: formatTime(item.capturedAt, item.timezone),
+    checkoutTime: item.checkedOutAt ? formatTime(item.checkedOutAt, item.timezone) : "--",
+    workedHours: formatWorkedHours(getWorkedMinutes(item.capturedAt, item.checkedOutAt)),
+    status,
+    minutesLate,
+    location: site?.name ?? item.siteName ?? item.locationLabel,
+    locationDetail: item.locationLabel,
+    accuracy: formatAccuracy(item.accuracy),
+    siteId: site?.id,
+    teamId,
+    // The fence verdict is the server's, made from the submitted coordinates.
+    siteDistance: formatDistance(item.siteDistance),
+    outsideGeofence: item.withinGeofence === false,
+    riskScore: risks.length > 0 ? Math.max(...risks.map((risk) => risk.score)) : undefined,
+    riskReasons: risks.flatMap((risk) => risk.reasons),
+    photoUrl: item.photoUrl,
+    checkoutPhotoUrl: item.checkoutPhotoUrl,
+    photoLabel: initials(item.userName),
+    flag: item.flag,
+    raw: item
+  };
+}
+
+export function absenceRow(user: RosterUser, status: "Missing" | "On leave" | "Day off", location: string): AdminRow {
+  return {
+    id: `absent-${user.id}`,
+    userId: user.id,
+    name: user.name,
+    time: "--",
+    checkoutTime: "--",
+    workedHours: "--",
+    status,
+    location,
+    accuracy: "--",
+    siteId: user.siteId,
+    teamId: user.teamId,
+    siteDistance: "--",
+    outsideGeofence: false,
+    photoUrl: undefined,
+    photoLabel: initials(user.name)
+  };
+}
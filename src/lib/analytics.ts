@@ -0,0 +1,171 @@
+import { localDateKey, nonWorkingReason, weekdayLabels } from "./calendar";
+import type { HistoryContext, RecordEvaluation } from "./history";
+import { findLeaveOn } from "./leave";
+import { isExpectedOn } from "./people";
+import { findShiftFor, isScheduledOn } from "./shifts";
+import type { AttendanceRecord, LeaveRequest, RosterUser } from "../types";
+
+export type TrendBucket = "week" | "month";
+
+export type TrendPoint = {
+  period: string;
+  onTime: number;
+  total: number;
+  rate: number;
+};
+
+export type ArrivalBin = {
+  offset: number;
+  label: string;
+  count: number;
+};
+
+export type WeekdayAbsence = {
+  weekday: number;
+  label: string;
+  expected: number;
+  absent: number;
+  rate: number;
+};
+
+export type PunctualityMover = {
+  userId: string;
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+};
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+export function datesBetween(start: string, end: string) {
+  const dates: string[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (cursor <= last) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+// Weeks are keyed by their Monday so they sort as strings.
+function periodKey(date: string, bucket: TrendBucket) {
+  if (bucket === "month") {
+    return date.slice(0, 7);
+  }
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+// Only working-day check-ins count, matching the per-user punctuality rate.
+function workingEvaluations(items: AttendanceRecord[], evaluations: Map<string, RecordEvaluation>) {
+  return items
+    .map((item) => ({ item, evaluation: evaluations.get(item.id) }))
+    .filter((entry): entry is { item: AttendanceRecord; evaluation: RecordEvaluation } =>
+      Boolean(entry.evaluation && !entry.evaluation.offReason)
+    );
+}
+
+export function punctualityTrend(
+  items: AttendanceRecord[],
+  evaluations: Map<string, RecordEvaluation>,
+  bucket: TrendBucket
+): TrendPoint[] {
+  const buckets = new Map<string, { onTime: number; total: number }>();
+  for (const { evaluation } of workingEvaluations(items, evaluations)) {
+    const key = periodKey(evaluation.date, bucket);
+    const entry = buckets.get(key) ?? { onTime: 0, total: 0 };
+    entry.total += 1;
+    entry.onTime += evaluation.status === "On time" ? 1 : 0;
+    buckets.set(key, entry);
+  }
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, entry]) => ({ period, ...entry, rate: percent(entry.onTime, entry.total) }));
+}
+
+// Arrivals outside the window are folded into the first and last bins.
+export function arrivalDistribution(
+  items: AttendanceRecord[],
+  evaluations: Map<string, RecordEvaluation>,
+  { from = -60, to = 120, step = 10 } = {}
+): ArrivalBin[] {
+  const bins: ArrivalBin[] = [];
+  for (let offset = from; offset < to; offset += step) {
+    bins.push({ offset, label: offset === 0 ? "0" : offset > 0 ? `+${offset}` : String(offset), count: 0 });
+  }
+  for (const { evaluation } of workingEvaluations(items, evaluations)) {
+    const clamped = Math.min(Math.max(evaluation.offsetMinutes, from), to - 1);
+    bins[Math.floor((clamped - from) / step)].count += 1;
+  }
+  return bins;
+}
+
+export function absenceByWeekday(
+  users: RosterUser[],
+  items: AttendanceRecord[],
+  leave: LeaveRequest[],
+  context: HistoryContext,
+  start: string,
+  end: string
+): WeekdayAbsence[] {
+  const present = new Set(items.map((item) => `${item.userId}|${localDateKey(item.capturedAt, item.timezone)}`));
+  const totals = weekdayLabels.map(() => ({ expected: 0, absent: 0 }));
+  for (const date of datesBetween(start, end)) {
+    if (nonWorkingReason(date, context.calendar)) {
+      continue;
+    }
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    for (const user of users) {
+      const shift = findShiftFor(user.id, date, context.shifts);
+      if (!isExpectedOn(user, date) || (shift && !isScheduledOn(shift, date)) || findLeaveOn(leave, user.id, date)) {
+        continue;
+      }
+      totals[weekday].expected += 1;
+      totals[weekday].absent += present.has(`${user.id}|${date}`) ? 0 : 1;
+    }
+  }
+  // Monday-first to match the rest of the schedule screens.
+  return [1, 2, 3, 4, 5, 6, 0].map((weekday) => ({
+    weekday,
+    label: weekdayLabels[weekday],
+    ...totals[weekday],
+    rate: percent(totals[weekday].absent, totals[weekday].expected)
+  }));
+}
+
+// Compares each employee's first half of the range with the second half.
+export function punctualityMovers(
+  users: RosterUser[],
+  items: AttendanceRecord[],
+  evaluations: Map<string, RecordEvaluation>,
+  start: string,
+  end: string,
+  minCheckins = 3
+) {
+  const dates = datesBetween(start, end);
+  const midpoint = dates[Math.floor(dates.length / 2)] ?? end;
+  const byUser = new Map<string, { before: [number, number]; after: [number, number] }>();
+  for (const { item, evaluation } of workingEvaluations(items, evaluations)) {
+    const entry = byUser.get(item.userId) ?? { before: [0, 0], after: [0, 0] };
+    const half = evaluation.date < midpoint ? entry.before : entry.after;
+    half[0] += evaluation.status === "On time" ? 1 : 0;
+    half[1] += 1;
+    byUser.set(item.userId, entry);
+  }
+  const movers: PunctualityMover[] = users.flatMap((user) => {
+    const entry = byUser.get(user.id);
+    if (!entry || entry.before[1] < minCheckins || entry.after[1] < minCheckins) {
+      return [];
+    }
+    const before = percent(entry.before[0], entry.before[1]);
+    const after = percent(entry.after[0], entry.after[1]);
+    return [{ userId: user.id, name: user.name, before, after, delta: after - before }];
+  });
+  return {
+    improved: movers.filter((mover) => mover.delta > 0).sort((a, b) => b.delta - a.delta),
+    declined: movers.filter((mover) => mover.delta < 0).sort((a, b) => a.delta - b.delta)
+  };
+}
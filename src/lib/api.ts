@@ -6,6 +6,17 @@ export type ApiOptions = {
   body?: unknown;
 };
 
+// Carries the HTTP status so callers can tell a rejected request from a server outage.
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
 export async function apiRequest<T>(path: string, options: ApiOptions = {}): Promise<T> {
   const { token, method, body } = options;
   const resolvedMethod = method ?? (body ? "POST" : "GET");
@@ -22,7 +33,7 @@ export async function apiRequest<T>(path: string, options: ApiOptions = {}): Pro
   if (!response.ok) {
     const errorBody = await response.json().catch(() => ({}));
     const message = (errorBody as { error?: string })?.error ?? "Request failed";
-    throw new Error(message);
+    throw new ApiError(message, response.status);
   }
 
   if (response.status === 204) {
@@ -31,3 +42,63 @@ export async function apiRequest<T>(path: string, options: ApiOptions = {}): Pro
 
   return (await response.json()) as T;
 }
+
+export function apiUpload<T>(
+  path: string,
+  form: FormData,
+  options: { token?: string | null; onProgress?: (progress: number) => void } = {}
+) {
+  const { token, onProgress } = options;
+  return new Promise<T>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", withApiBase(path));
+    if (token) {
+      request.setRequestHeader("Authorization", `Bearer ${token}`);
+    }
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    request.onload = () => {
+      const body = parseJson(request.responseText);
+      if (request.status < 200 || request.status >= 300) {
+        reject(new ApiError((body as { error?: string } | null)?.error ?? "Upload failed", request.status));
+        return;
+      }
+      resolve(body as T);
+    };
+    // Network-level failures surface as TypeError, matching fetch, so callers can queue them.
+    request.onerror = () => reject(new TypeError("Network request failed"));
+    request.send(form);
+  });
+}
+
+function parseJson(text: string) {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+export function isOfflineError(error: unknown) {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+// An expired or revoked session; the same request can succeed once the user signs in again.
+export function isAuthError(error: unknown) {
+  return error instanceof ApiError && (error.status === 401 || error.status === 403);
+}
+
+// The server refused the request itself (e.g. 400 or 422), so resending it will be refused the same way.
+export function isRejectedError(error: unknown) {
+  return (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    !isAuthError(error) &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
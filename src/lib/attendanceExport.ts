@@ -0,0 +1,293 @@
+import { csvBlob } from "./csv";
+import { flagStatusLabels } from "./flags";
+import { formatTime, formatWorkedHours, getWorkedMinutes } from "./format";
+import { summarizeHistory, type HistoryContext, type RecordEvaluation } from "./history";
+import { jpegThumbnail } from "./image";
+import { findLeaveOn, leaveTypeLabels } from "./leave";
+import { buildMatrix } from "./matrix";
+import { createPdf, fitText, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, type PdfColor, type PdfImage } from "./pdf";
+import type { AttendanceRecord, LeaveRequest, RosterUser } from "../types";
+
+export type ExportFormat = "xlsx" | "csv" | "json" | "pdf";
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  xlsx: "Excel",
+  csv: "CSV",
+  json: "JSON",
+  pdf: "PDF report"
+};
+
+export type ExportRow = {
+  id: string;
+  date: string;
+  employeeId: string;
+  employee: string;
+  checkIn: string;
+  checkOut: string;
+  hours: string;
+  workedMinutes: number | null;
+  status: RecordEvaluation["status"] | "Missing" | "On leave";
+  minutesLate: number;
+  location: string;
+  flag: string;
+  photoUrl?: string;
+};
+
+export type ExportReport = {
+  title: string;
+  period: string;
+  filters?: string;
+  items: AttendanceRecord[];
+  evaluations: Map<string, RecordEvaluation>;
+  // Everyone in scope, so expected working days without a check-in become Missing or On leave rows.
+  users: RosterUser[];
+  dates: string[];
+  leave: LeaveRequest[];
+  context: HistoryContext;
+  todayKey: string;
+};
+
+function absenceRows(report: ExportReport): ExportRow[] {
+  const { users, dates, items, evaluations, leave, context, todayKey } = report;
+  return buildMatrix(users, dates, items, evaluations, leave, context, todayKey).flatMap((row) =>
+    row.days.flatMap((day): ExportRow[] => {
+      if (day.kind !== "absent" && day.kind !== "leave") {
+        return [];
+      }
+      const leaveEntry = day.kind === "leave" ? findLeaveOn(leave, row.user.id, day.date) : undefined;
+      return [
+        {
+          id: `${row.user.id}-${day.date}`,
+          date: day.date,
+          employeeId: row.user.id,
+          employee: row.user.name,
+          checkIn: "",
+          checkOut: "",
+          hours: "",
+          workedMinutes: null,
+          status: day.kind === "leave" ? "On leave" : "Missing",
+          minutesLate: 0,
+          location: leaveEntry ? leaveTypeLabels[leaveEntry.type] : "",
+          flag: ""
+        }
+      ];
+    })
+  );
+}
+
+// Working days only, like the server's xlsx (`workingDaysOnly=true`), ordered by day then employee.
+export function exportRows(report: ExportReport): ExportRow[] {
+  const { items, evaluations } = report;
+  const attended = items.flatMap((item): ExportRow[] => {
+    const evaluation = evaluations.get(item.id);
+    if (!evaluation || evaluation.offReason) {
+      return [];
+    }
+    const workedMinutes = getWorkedMinutes(item.capturedAt, item.checkedOutAt);
+    return [
+      {
+        id: item.id,
+        date: evaluation.date,
+        employeeId: item.userId,
+        employee: item.userName,
+        checkIn: formatTime(item.capturedAt, item.timezone),
+        checkOut: item.checkedOutAt ? formatTime(item.checkedOutAt, item.timezone) : "",
+        hours: workedMinutes === null ? "" : formatWorkedHours(workedMinutes),
+        workedMinutes,
+        status: evaluation.status,
+        minutesLate: evaluation.status === "On time" ? 0 : evaluation.minutesLate,
+        location: item.siteName ?? item.locationLabel,
+        flag: item.flag ? flagStatusLabels[item.flag.status] : "",
+        photoUrl: item.photoUrl
+      }
+    ];
+  });
+  return [...attended, ...absenceRows(report)].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.employee.localeCompare(b.employee)
+  );
+}
+
+export function exportCsv(rows: ExportRow[]) {
+  return csvBlob(
+    ["Date", "Employee", "Check-in", "Check-out", "Hours", "Status", "Minutes late", "Location", "Flag"],
+    rows.map((row) => [
+      row.date,
+      row.employee,
+      row.checkIn,
+      row.checkOut,
+      row.hours,
+      row.status,
+      row.minutesLate,
+      row.location,
+      row.flag
+    ])
+  );
+}
+
+export function exportJson(report: ExportReport, rows: ExportRow[]) {
+  const body = {
+    title: report.title,
+    period: report.period,
+    filters: report.filters,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      ...summarizeHistory(report.items, report.evaluations),
+      missing: rows.filter((row) => row.status === "Missing").length,
+      onLeave: rows.filter((row) => row.status === "On leave").length
+    },
+    records: rows.map(({ photoUrl, ...row }) => ({ ...row, photoUrl: photoUrl ?? null }))
+  };
+  return new Blob([JSON.stringify(body, null, 2)], { type: "application/json" });
+}
+
+const ink: Record<number, PdfColor> = {
+  50: [246, 246, 246],
+  100: [231, 231, 231],
+  500: [110, 110, 110],
+  900: [31, 31, 31]
+};
+
+const statusColors: Record<ExportRow["status"], PdfColor> = {
+  "On time": [4, 120, 87],
+  Late: [180, 83, 9],
+  "Very late": [194, 65, 12],
+  Missing: [190, 18, 60],
+  "On leave": [15, 65, 133]
+};
+
+const columns: { label: string; width: number; value: (row: ExportRow) => string; align?: "right" }[] = [
+  { label: "Date", width: 70, value: (row) => row.date },
+  { label: "Employee", width: 150, value: (row) => row.employee },
+  { label: "In", width: 60, value: (row) => row.checkIn },
+  { label: "Out", width: 60, value: (row) => row.checkOut || "--" },
+  { label: "Hours", width: 55, value: (row) => row.hours || "--" },
+  { label: "Status", width: 65, value: (row) => row.status },
+  { label: "Late", width: 45, value: (row) => (row.minutesLate ? `${row.minutesLate}m` : ""), align: "right" },
+  { label: "Location", width: 140, value: (row) => row.location },
+  { label: "Flag", width: 65, value: (row) => row.flag }
+];
+
+const margin = 36;
+const photoWidth = 27;
+const rowHeight = 40;
+const headerHeight = 20;
+
+// Thumbnails load one at a time so a long period does not open hundreds of requests at once.
+async function loadThumbnails(rows: ExportRow[]) {
+  const thumbnails = new Map<string, PdfImage>();
+  for (const row of rows) {
+    if (row.photoUrl) {
+      const thumbnail = await jpegThumbnail(row.photoUrl);
+      if (thumbnail) {
+        thumbnails.set(row.id, thumbnail);
+      }
+    }
+  }
+  return thumbnails;
+}
+
+export async function exportPdf(report: ExportReport, rows: ExportRow[]) {
+  const pdf = createPdf();
+  const thumbnails = await loadThumbnails(rows);
+  const stats = summarizeHistory(report.items, report.evaluations);
+  const workedMinutes = rows.reduce((total, row) => total + (row.workedMinutes ?? 0), 0);
+  const flagged = rows.filter((row) => row.flag).length;
+
+  pdf.addPage();
+  pdf.text(report.title, margin, margin + 14, { size: 18, bold: true });
+  pdf.text([report.period, report.filters].filter(Boolean).join(" · "), margin, margin + 32, {
+    size: 10,
+    color: ink[500]
+  });
+
+  const summary = [
+    { label: "Check-ins", value: String(stats.total) },
+    { label: "On time", value: String(stats.onTime) },
+    { label: "Late", value: String(stats.late) },
+    { label: "Very late", value: String(stats.veryLate) },
+    { label: "Missing", value: String(rows.filter((row) => row.status === "Missing").length) },
+    { label: "On leave", value: String(rows.filter((row) => row.status === "On leave").length) },
+    { label: "Punctuality", value: `${stats.punctualityRate}%` },
+    { label: "Hours worked", value: formatWorkedHours(workedMinutes) },
+    { label: "Flagged", value: String(flagged) }
+  ];
+  const boxWidth = (PDF_PAGE_WIDTH - margin * 2 - (summary.length - 1) * 8) / summary.length;
+  summary.forEach((entry, index) => {
+    const x = margin + index * (boxWidth + 8);
+    pdf.rect(x, margin + 46, boxWidth, 44, ink[50]);
+    pdf.text(entry.label.toUpperCase(), x + 8, margin + 60, { size: 7, color: ink[500] });
+    pdf.text(entry.value, x + 8, margin + 80, { size: 14, bold: true });
+  });
+
+  const tableHeader = (top: number) => {
+    pdf.rect(margin, top, PDF_PAGE_WIDTH - margin * 2, headerHeight, ink[100]);
+    let x = margin + photoWidth + 8;
+    for (const column of columns) {
+      const left = column.align === "right" ? x + column.width - 6 : x;
+      pdf.text(column.label.toUpperCase(), left, top + 13, {
+        size: 7,
+        bold: true,
+        color: ink[500],
+        align: column.align
+      });
+      x += column.width;
+    }
+    return top + headerHeight;
+  };
+
+  let y = tableHeader(margin + 104);
+  if (rows.length === 0) {
+    pdf.text("No attendance on working days in this period.", margin, y + 20, { color: ink[500] });
+  }
+  for (const row of rows) {
+    if (y + rowHeight > PDF_PAGE_HEIGHT - margin) {
+      pdf.addPage();
+      y = tableHeader(margin);
+    }
+    const thumbnail = thumbnails.get(row.id);
+    if (thumbnail) {
+      const scale = Math.min(photoWidth / thumbnail.width, (rowHeight - 6) / thumbnail.height);
+      pdf.image(thumbnail, margin, y + 3, thumbnail.width * scale, thumbnail.height * scale);
+    } else {
+      pdf.rect(margin, y + 3, photoWidth, rowHeight - 6, ink[50]);
+    }
+    let x = margin + photoWidth + 8;
+    for (const column of columns) {
+      const value = fitText(column.value(row), 9, column.width - 8);
+      const left = column.align === "right" ? x + column.width - 6 : x;
+      pdf.text(value, left, y + rowHeight / 2 + 3, {
+        size: 9,
+        bold: column.label === "Employee",
+        color: column.label === "Status" ? statusColors[row.status] : ink[900],
+        align: column.align
+      });
+      x += column.width;
+    }
+    pdf.line(margin, y + rowHeight, PDF_PAGE_WIDTH - margin, y + rowHeight, ink[100]);
+    y += rowHeight;
+  }
+
+  const generated = `Generated ${new Date().toLocaleString("en-US")}`;
+  for (let index = 0; index < pdf.pageCount; index += 1) {
+    pdf.onPage(index, () => {
+      pdf.text(generated, margin, PDF_PAGE_HEIGHT - 16, { size: 7, color: ink[500] });
+      pdf.text(`Page ${index + 1} of ${pdf.pageCount}`, PDF_PAGE_WIDTH - margin, PDF_PAGE_HEIGHT - 16, {
+        size: 7,
+        color: ink[500],
+        align: "right"
+      });
+    });
+  }
+  return pdf.toBlob();
+}
+
+export async function exportBlob(format: Exclude<ExportFormat, "xlsx">, report: ExportReport) {
+  const rows = exportRows(report);
+  if (format === "csv") {
+    return exportCsv(rows);
+  }
+  if (format === "json") {
+    return exportJson(report, rows);
+  }
+  return exportPdf(report, rows);
+}
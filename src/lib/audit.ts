@@ -0,0 +1,42 @@
+import type { AuditAction, AuditEntry } from "../types";
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  "attendance.flag": "Flag changed",
+  "attendance.delete": "Check-in deleted",
+  "settings.update": "Settings changed",
+  "leave.review": "Leave reviewed",
+  "user.invite": "User invited",
+  "user.role": "Role changed",
+  "user.deactivate": "User deactivated",
+  "user.reactivate": "User reactivated"
+};
+
+export type AuditChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+export function formatAuditValue(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return "—";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// Only fields whose value actually differs are listed; deletions show everything that was removed.
+export function auditChanges(entry: Pick<AuditEntry, "before" | "after">): AuditChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return fields
+    .map((field) => ({
+      field,
+      before: formatAuditValue(before[field]),
+      after: formatAuditValue(after[field])
+    }))
+    .filter((change) => change.before !== change.after);
+}
@@ -0,0 +1,155 @@
+import type { WorkCalendar } from "../types";
+
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const defaultWorkCalendar: WorkCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: [] };
+
+export type ImportedHoliday = { date: string; name: string };
+
+// `unsupported` names events whose recurrence rule could not be expanded, so the import can say so.
+export type IcsImport = { holidays: ImportedHoliday[]; unsupported: string[] };
+
+// Dates are calendar days (YYYY-MM-DD); the weekday is read in UTC so it never shifts with the viewer's zone.
+export function nonWorkingReason(date: string, calendar: WorkCalendar) {
+  const holiday = calendar.holidays.find((item) => item.date === date);
+  if (holiday) {
+    return holiday.name;
+  }
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return calendar.workingDays.includes(weekday) ? null : weekdayLabels[weekday];
+}
+
+export function isWorkingDay(date: string, calendar: WorkCalendar) {
+  return nonWorkingReason(date, calendar) === null;
+}
+
+export function localDateKey(iso: string, timeZone?: string) {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return iso.slice(0, 10);
+  }
+  // en-CA formats as YYYY-MM-DD.
+  return date.toLocaleDateString("en-CA", { timeZone });
+}
+
+// Yearly rules are expanded for the dates in `range`; any other recurrence is reported rather than imported once.
+export function parseIcs(text: string, range: { start: string; end: string }): IcsImport {
+  // Long lines are folded onto continuation lines that start with a space or tab.
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const holidays: ImportedHoliday[] = [];
+  const unsupported: string[] = [];
+  let event: { start?: string; end?: string; name?: string; rule?: string } | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (event?.start) {
+        const name = event.name ?? "Holiday";
+        const length = event.end && event.end > event.start ? daysBetween(event.start, event.end) : 1;
+        const starts = event.rule ? yearlyOccurrences(event.start, event.rule, range) : [event.start];
+        if (starts) {
+          starts.forEach((start) => holidays.push(...expandEvent(start, length, name)));
+        } else {
+          unsupported.push(name);
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const property = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+    if (property === "DTSTART") {
+      event.start = toDateKey(value);
+    } else if (property === "DTEND") {
+      event.end = toDateKey(value);
+    } else if (property === "RRULE") {
+      event.rule = value;
+    } else if (property === "SUMMARY") {
+      event.name = value.replace(/\\([,;\\])/g, "$1").replace(/\\n/gi, " ");
+    }
+  }
+
+  const seen = new Set<string>();
+  return {
+    holidays: holidays.filter((holiday) => {
+      if (seen.has(holiday.date)) {
+        return false;
+      }
+      seen.add(holiday.date);
+      return true;
+    }),
+    unsupported
+  };
+}
+
+function toDateKey(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+// DTEND is exclusive for all-day events, so a one-day holiday ends on the following date.
+function daysBetween(start: string, end: string) {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86400000);
+}
+
+function expandEvent(start: string, length: number, name: string) {
+  const days: ImportedHoliday[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  while (days.length < Math.min(length, 31)) {
+    days.push({ date: cursor.toISOString().slice(0, 10), name });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+const supportedRuleParts = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "WKST", "BYMONTH", "BYMONTHDAY"];
+
+// Only fixed-date yearly rules are expanded; BYDAY-style rules (e.g. "last Monday of May") return null.
+function yearlyOccurrences(start: string, rule: string, range: { start: string; end: string }) {
+  const parts = new Map(
+    rule.split(";").map((part): [string, string] => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+  const [, month, day] = start.split("-");
+  const fixedDate =
+    parts.get("FREQ") === "YEARLY" &&
+    [...parts.keys()].every((key) => supportedRuleParts.includes(key)) &&
+    (!parts.has("BYMONTH") || Number(parts.get("BYMONTH")) === Number(month)) &&
+    (!parts.has("BYMONTHDAY") || Number(parts.get("BYMONTHDAY")) === Number(day));
+  if (!fixedDate) {
+    return null;
+  }
+  const interval = Math.max(1, Number(parts.get("INTERVAL") ?? 1) || 1);
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : Infinity;
+  const until = toDateKey(parts.get("UNTIL") ?? "") ?? range.end;
+  const last = until < range.end ? until : range.end;
+  const dates: string[] = [];
+  let seen = 0;
+  for (let year = Number(start.slice(0, 4)); seen < count; year += interval) {
+    const date = `${year}-${month}-${day}`;
+    if (date > last) {
+      break;
+    }
+    // A 29 February rule skips the years without one, and those years do not count towards COUNT.
+    if (new Date(Date.UTC(year, Number(month) - 1, Number(day))).getUTCDate() !== Number(day)) {
+      continue;
+    }
+    seen += 1;
+    if (date >= range.start) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
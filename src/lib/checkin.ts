@@ -0,0 +1,83 @@
+import { apiRequest, apiUpload } from "./api";
+import { signCheckin } from "./deviceKey";
+import { photoFileName } from "./image";
+import type { LivenessResult } from "./liveness";
+import type { LocationResult } from "./location";
+import type { AttendanceRecord, PhotoStamp } from "../types";
+
+export type CheckinKind = "check-in" | "check-out";
+
+export type CheckinSubmission = {
+  kind: CheckinKind;
+  attendanceId?: string;
+  photo: Blob;
+  location: LocationResult;
+  capturedAt: string;
+  timezone: string;
+  liveness?: LivenessResult;
+  stamp?: PhotoStamp;
+};
+
+export async function submitCheckin(
+  token: string,
+  userId: string,
+  submission: CheckinSubmission,
+  options: { delayedSync?: boolean; onUploadProgress?: (progress: number) => void } = {}
+) {
+  const { location } = submission;
+  const signature = await signCheckin(userId, {
+    photo: submission.photo,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    capturedAt: submission.capturedAt
+  });
+
+  const form = new FormData();
+  form.append("photo", submission.photo, photoFileName(submission.photo));
+  const upload = await apiUpload<{ url: string; publicId: string }>("/uploads/photo", form, {
+    token,
+    onProgress: options.onUploadProgress
+  });
+
+  const body = {
+    locationLabel: location.label,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    accuracy: location.accuracy,
+    // Raw inputs for the server's spoofing score; the client never scores its own position.
+    rawAccuracy: location.rawAccuracy,
+    positionSource: location.source,
+    positionFixedAt: location.fixedAt,
+    deviceCapturedAt: submission.capturedAt,
+    photoUrl: upload.url,
+    photoPublicId: upload.publicId,
+    photoStamp: submission.stamp,
+    signature: signature ?? undefined,
+    // Queued submissions keep the device capture time; live ones are stamped by the server.
+    ...(options.delayedSync
+      ? { capturedAt: submission.capturedAt, timezone: submission.timezone, delayedSync: true }
+      : {})
+  };
+
+  if (submission.kind === "check-out") {
+    if (!submission.attendanceId) {
+      throw new Error("Missing check-in to clock out from.");
+    }
+    return apiRequest<AttendanceRecord>(`/attendance/${submission.attendanceId}/checkout`, {
+      method: "PUT",
+      token,
+      body
+    });
+  }
+
+  return apiRequest<AttendanceRecord>("/attendance", {
+    method: "POST",
+    token,
+    body: {
+      ...body,
+      livenessChallenge: submission.liveness?.challenge,
+      livenessPassed: submission.liveness?.passed,
+      livenessScore: submission.liveness?.confidence
+    }
+  });
+}
@@ -0,0 +1,19 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCell(value: CsvValue) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  // Names and locations are user-entered; a leading =, +, - or @ would run as a formula in a spreadsheet.
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 style: header row first, CRLF line endings so Excel opens it cleanly.
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(",")).join("\r\n");
+}
+
+export function csvBlob(headers: string[], rows: CsvValue[][]) {
+  return new Blob([toCsv(headers, rows)], { type: "text/csv;charset=utf-8" });
+}
@@ -0,0 +1,154 @@
+export type CheckinSignature = {
+  deviceId: string;
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  photoHash: string;
+  signedAt: string;
+  value: string;
+};
+
+// Sent with the credential login or signup request; the server only trusts keys registered that way.
+export type DeviceRegistration = {
+  deviceId: string;
+  publicKey: string;
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  label: string;
+};
+
+type DeviceKey = {
+  userId: string;
+  deviceId: string;
+  keyPair: CryptoKeyPair;
+  publicKey: string;
+};
+
+export type PendingDeviceKey = Omit<DeviceKey, "userId">;
+
+const DB_NAME = "attendance-device";
+const DB_VERSION = 1;
+const STORE_NAME = "keys";
+const SIGNATURE_ALGORITHM = "ECDSA-P256-SHA256";
+const keyParams: EcKeyGenParams = { name: "ECDSA", namedCurve: "P-256" };
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    if (!("indexedDB" in window) || !window.crypto?.subtle) {
+      reject(new Error("Device signing is not supported in this browser."));
+      return;
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "userId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Unable to open device key storage."));
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error("Device key storage request failed."));
+      transaction.onabort = () => reject(transaction.error ?? new Error("Device key storage request aborted."));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// The private key is generated non-extractable, so it never leaves this browser profile.
+async function generateKey(): Promise<PendingDeviceKey> {
+  const keyPair = await crypto.subtle.generateKey(keyParams, false, ["sign", "verify"]);
+  const spki = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  return { deviceId: crypto.randomUUID(), keyPair, publicKey: toBase64(new Uint8Array(spki)) };
+}
+
+// Only keys saved after a credential login exist here; the server knows no other key.
+async function loadKey(userId: string) {
+  return withStore<DeviceKey | undefined>("readonly", (store) => store.get(userId));
+}
+
+// A restored session cannot register a key, so without one the user has to sign in again.
+export async function hasDeviceKey(userId: string) {
+  try {
+    return Boolean(await loadKey(userId));
+  } catch {
+    // Signing is unsupported here, so a new login would not register a key either.
+    return true;
+  }
+}
+
+// A fresh key per credential login; it is only stored once the server has accepted the login.
+export async function prepareDeviceKey() {
+  try {
+    return await generateKey();
+  } catch {
+    return null;
+  }
+}
+
+export function deviceRegistration(key: PendingDeviceKey): DeviceRegistration {
+  return {
+    deviceId: key.deviceId,
+    publicKey: key.publicKey,
+    algorithm: SIGNATURE_ALGORITHM,
+    label: navigator.userAgent
+  };
+}
+
+export async function saveDeviceKey(userId: string, key: PendingDeviceKey) {
+  await withStore("readwrite", (store) => store.put({ userId, ...key }));
+}
+
+export async function hashBlob(blob: Blob) {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// The server rebuilds this exact string from the request body before verifying.
+export function signaturePayload(photoHash: string, latitude: number, longitude: number, signedAt: string) {
+  return [photoHash, latitude.toFixed(6), longitude.toFixed(6), signedAt].join("|");
+}
+
+export async function signCheckin(
+  userId: string,
+  details: { photo: Blob; latitude: number; longitude: number; capturedAt: string }
+): Promise<CheckinSignature | null> {
+  let key: DeviceKey | undefined;
+  try {
+    key = await loadKey(userId);
+  } catch {
+    return null;
+  }
+  if (!key) {
+    return null;
+  }
+  const photoHash = await hashBlob(details.photo);
+  const payload = signaturePayload(photoHash, details.latitude, details.longitude, details.capturedAt);
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    key.keyPair.privateKey,
+    new TextEncoder().encode(payload)
+  );
+  return {
+    deviceId: key.deviceId,
+    algorithm: SIGNATURE_ALGORITHM,
+    photoHash,
+    signedAt: details.capturedAt,
+    value: toBase64(new Uint8Array(signature))
+  };
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return window.btoa(binary);
+}
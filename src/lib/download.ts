@@ -14,9 +14,12 @@ export async function downloadFile(path: string, token: string, fallbackName: st
   }
 
   const blob = await response.blob();
+  saveBlob(blob, getFileName(response.headers.get("Content-Disposition")) ?? fallbackName);
+}
+
+export function saveBlob(blob: Blob, fileName: string) {
   const url = window.URL.createObjectURL(blob);
   const link = document.createElement("a");
-  const fileName = getFileName(response.headers.get("Content-Disposition")) ?? fallbackName;
   link.href = url;
   link.download = fileName;
   document.body.appendChild(link);
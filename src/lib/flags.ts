@@ -0,0 +1,28 @@
+import type { FlagReason, FlagStatus } from "../types";
+
+export const flagReasonLabels: Record<FlagReason, string> = {
+  "wrong-location": "Wrong location",
+  "photo-mismatch": "Photo doesn't match",
+  "proxy-suspected": "Checked in for someone else",
+  "time-mismatch": "Time doesn't match",
+  other: "Other"
+};
+
+export const flagStatusLabels: Record<FlagStatus, string> = {
+  open: "Open",
+  disputed: "Disputed",
+  resolved: "Resolved",
+  upheld: "Upheld"
+};
+
+export const flagStatusStyles: Record<FlagStatus, string> = {
+  open: "bg-rose-100 text-rose-700",
+  disputed: "bg-amber-100 text-amber-800",
+  resolved: "bg-emerald-100 text-emerald-800",
+  upheld: "bg-ink-900 text-white"
+};
+
+// Resolved clears the employee; upheld confirms the flag. Either closes the thread.
+export function isFlagClosed(status: FlagStatus) {
+  return status === "resolved" || status === "upheld";
+}
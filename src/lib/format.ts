@@ -27,3 +27,24 @@ export function formatDate(value: string, timeZone?: string) {
   }
   return date.toLocaleDateString("en-US", options);
 }
+
+export function getWorkedMinutes(start: string, end?: string) {
+  if (!end) {
+    return null;
+  }
+  const startTime = new Date(start).getTime();
+  const endTime = new Date(end).getTime();
+  if (Number.isNaN(startTime) || Number.isNaN(endTime) || endTime < startTime) {
+    return null;
+  }
+  return Math.round((endTime - startTime) / 60000);
+}
+
+export function formatWorkedHours(minutes: number | null) {
+  if (minutes === null) {
+    return "--";
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours}h ${String(rest).padStart(2, "0")}m`;
+}
@@ -0,0 +1,63 @@
+import type { AttendanceRecord, OfficeSite } from "../types";
+
+export type GeofenceResult = {
+  site: OfficeSite;
+  distance: number;
+  inside: boolean;
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export function distanceInMeters(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+) {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// A site whose radius contains the position wins over a closer centre, so a large campus next to a small
+// annex still matches; only a position inside no site falls back to the nearest centre.
+export function findNearestSite(
+  position: { latitude: number; longitude: number },
+  sites: OfficeSite[]
+): GeofenceResult | null {
+  let nearest: GeofenceResult | null = null;
+  for (const site of sites) {
+    const distance = Math.round(distanceInMeters(position, site));
+    const inside = distance <= site.radiusMeters;
+    if (!nearest || (inside && !nearest.inside) || (inside === nearest.inside && distance < nearest.distance)) {
+      nearest = { site, distance, inside };
+    }
+  }
+  return nearest;
+}
+
+export function resolveRecordSite(
+  record: Pick<AttendanceRecord, "siteId" | "latitude" | "longitude">,
+  sites: OfficeSite[]
+) {
+  const matched = record.siteId ? sites.find((site) => site.id === record.siteId) : undefined;
+  if (matched) {
+    return matched;
+  }
+  if (typeof record.latitude !== "number" || typeof record.longitude !== "number") {
+    return null;
+  }
+  return findNearestSite({ latitude: record.latitude, longitude: record.longitude }, sites)?.site ?? null;
+}
+
+export function formatDistance(distance?: number) {
+  if (typeof distance !== "number" || Number.isNaN(distance)) {
+    return "--";
+  }
+  if (distance >= 1000) {
+    return `${(distance / 1000).toFixed(1)}km`;
+  }
+  return `${Math.round(distance)}m`;
+}
@@ -0,0 +1,147 @@
+import { localDateKey, nonWorkingReason } from "./calendar";
+import { resolveRecordSite } from "./geofence";
+import { findLeaveOn } from "./leave";
+import { evaluateLateness, type LatenessResult } from "./punctuality";
+import { findShiftFor, isScheduledOn } from "./shifts";
+import type { AttendanceRecord, LatenessPolicy, LeaveRequest, OfficeSite, ShiftSchedule, WorkCalendar } from "../types";
+
+export type HistoryContext = {
+  calendar: WorkCalendar;
+  shifts: ShiftSchedule;
+  sites: OfficeSite[];
+  cutoffTime: string;
+  latenessPolicy: LatenessPolicy;
+};
+
+export type RecordEvaluation = LatenessResult & {
+  date: string;
+  offReason: string | null;
+};
+
+export type HistoryStats = {
+  onTime: number;
+  late: number;
+  veryLate: number;
+  minutesLate: number;
+  total: number;
+  punctualityRate: number;
+};
+
+export type DayKind = "on-time" | "late" | "very-late" | "absent" | "leave" | "off" | "upcoming";
+
+export type HistoryDay = {
+  date: string;
+  kind: DayKind;
+  label: string;
+  record?: AttendanceRecord;
+};
+
+function offReasonFor(userId: string, date: string, context: HistoryContext) {
+  const shift = findShiftFor(userId, date, context.shifts);
+  return nonWorkingReason(date, context.calendar) ?? (shift && !isScheduledOn(shift, date) ? "Off shift" : null);
+}
+
+// Each check-in is judged against the shift the employee had on that date.
+export function evaluateRecords(items: AttendanceRecord[], context: HistoryContext) {
+  return new Map(
+    items.map((item): [string, RecordEvaluation] => {
+      const date = localDateKey(item.capturedAt, item.timezone);
+      const shift = findShiftFor(item.userId, date, context.shifts);
+      const site = resolveRecordSite(item, context.sites);
+      const startTime = shift?.startTime ?? site?.cutoffTime ?? context.cutoffTime;
+      return [
+        item.id,
+        {
+          ...evaluateLateness(item, startTime, site?.timezone, context.latenessPolicy, shift?.endTime),
+          date,
+          offReason: offReasonFor(item.userId, date, context)
+        }
+      ];
+    })
+  );
+}
+
+// Check-ins on weekends, holidays or off-shift days are kept in tables but left out of punctuality.
+export function summarizeHistory(items: AttendanceRecord[], evaluations: Map<string, RecordEvaluation>): HistoryStats {
+  const results = items
+    .map((item) => evaluations.get(item.id))
+    .filter((result): result is RecordEvaluation => Boolean(result && !result.offReason));
+  const veryLate = results.filter((result) => result.status === "Very late").length;
+  const late = results.filter((result) => result.status === "Late").length + veryLate;
+  const onTime = results.length - late;
+  return {
+    onTime,
+    late,
+    veryLate,
+    minutesLate: results.reduce((total, result) => total + (result.status !== "On time" ? result.minutesLate : 0), 0),
+    total: results.length,
+    punctualityRate: results.length > 0 ? Math.round((onTime / results.length) * 100) : 0
+  };
+}
+
+export function shiftMonth(month: string, delta: number) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + delta, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export function monthDates(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: lastDay }, (_, index) => `${month}-${String(index + 1).padStart(2, "0")}`);
+}
+
+const tierKinds: Record<LatenessResult["status"], DayKind> = {
+  "On time": "on-time",
+  Late: "late",
+  "Very late": "very-late"
+};
+
+export function buildMonthDays(
+  userId: string,
+  month: string,
+  items: AttendanceRecord[],
+  evaluations: Map<string, RecordEvaluation>,
+  leave: LeaveRequest[],
+  context: HistoryContext,
+  todayKey: string
+): HistoryDay[] {
+  return buildDays(userId, monthDates(month), items, evaluations, leave, context, todayKey);
+}
+
+// One entry per calendar day: a check-in wins, then approved leave, then days off; anything else in the past is absent.
+export function buildDays(
+  userId: string,
+  dates: string[],
+  items: AttendanceRecord[],
+  evaluations: Map<string, RecordEvaluation>,
+  leave: LeaveRequest[],
+  context: HistoryContext,
+  todayKey: string
+): HistoryDay[] {
+  const recordsByDate = new Map<string, AttendanceRecord>();
+  for (const item of items) {
+    const date = evaluations.get(item.id)?.date ?? localDateKey(item.capturedAt, item.timezone);
+    if (!recordsByDate.has(date)) {
+      recordsByDate.set(date, item);
+    }
+  }
+  return dates.map((date): HistoryDay => {
+    const record = recordsByDate.get(date);
+    const evaluation = record ? evaluations.get(record.id) : undefined;
+    if (record && evaluation) {
+      return { date, kind: tierKinds[evaluation.status], label: evaluation.status, record };
+    }
+    if (findLeaveOn(leave, userId, date)) {
+      return { date, kind: "leave", label: "On leave" };
+    }
+    const offReason = offReasonFor(userId, date, context);
+    if (offReason) {
+      return { date, kind: "off", label: offReason };
+    }
+    if (date > todayKey) {
+      return { date, kind: "upcoming", label: "Upcoming" };
+    }
+    return { date, kind: "absent", label: "Absent" };
+  });
+}
@@ -0,0 +1,64 @@
+const rawMaxDimension = Number(import.meta.env.VITE_CAPTURE_MAX_DIMENSION);
+const rawQuality = Number(import.meta.env.VITE_CAPTURE_QUALITY);
+
+export const CAPTURE_MAX_DIMENSION = rawMaxDimension > 0 ? rawMaxDimension : 1280;
+export const CAPTURE_QUALITY = rawQuality > 0 && rawQuality <= 1 ? rawQuality : 0.8;
+
+let webpSupported: boolean | null = null;
+
+export function supportsWebp() {
+  if (webpSupported === null) {
+    const canvas = document.createElement("canvas");
+    canvas.width = 1;
+    canvas.height = 1;
+    webpSupported = canvas.toDataURL("image/webp").startsWith("data:image/webp");
+  }
+  return webpSupported;
+}
+
+export function fitWithin(width: number, height: number, maxDimension = CAPTURE_MAX_DIMENSION) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, quality = CAPTURE_QUALITY) {
+  const type = supportsWebp() ? "image/webp" : "image/jpeg";
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Unable to encode photo."));
+        }
+      },
+      type,
+      quality
+    );
+  });
+}
+
+export function photoFileName(blob: Blob) {
+  return blob.type === "image/webp" ? "capture.webp" : "capture.jpg";
+}
+
+// Small JPEG copies for embedding in reports. Returns null when the photo cannot be read (e.g. cross-origin).
+export async function jpegThumbnail(url: string, maxDimension = 160) {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return null;
+    }
+    const bitmap = await createImageBitmap(await response.blob());
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.7));
+    return blob ? { data: new Uint8Array(await blob.arrayBuffer()), width, height } : null;
+  } catch {
+    return null;
+  }
+}
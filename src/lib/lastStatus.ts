@@ -0,0 +1,39 @@
+import { localDateKey } from "./calendar";
+import type { AttendanceRecord } from "../types";
+
+const LAST_STATUS_KEY = "attendance_last_status";
+
+export type LastStatus = {
+  userId: string;
+  userName: string;
+  // Device-local day the status belongs to; a status from an earlier day says nothing about today.
+  date: string;
+  attendance: AttendanceRecord | null;
+  pendingSync: number;
+  savedAt: string;
+};
+
+export function saveLastStatus(status: LastStatus) {
+  try {
+    window.localStorage.setItem(LAST_STATUS_KEY, JSON.stringify(status));
+  } catch {
+    // Storage full or disabled; the offline screen will show no status.
+  }
+}
+
+export function readLastStatus() {
+  const stored = window.localStorage.getItem(LAST_STATUS_KEY);
+  if (!stored) {
+    return null;
+  }
+  try {
+    const status = JSON.parse(stored) as LastStatus;
+    return status.date === localDateKey(new Date().toISOString()) ? status : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearLastStatus() {
+  window.localStorage.removeItem(LAST_STATUS_KEY);
+}
@@ -0,0 +1,41 @@
+import type { LeaveRequest, LeaveStatus, LeaveType } from "../types";
+
+export const leaveTypeLabels: Record<LeaveType, string> = {
+  annual: "Annual leave",
+  sick: "Sick leave",
+  personal: "Personal leave",
+  unpaid: "Unpaid leave"
+};
+
+export const leaveStatusStyles: Record<LeaveStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  approved: "bg-emerald-100 text-emerald-800",
+  rejected: "bg-rose-100 text-rose-700",
+  cancelled: "bg-ink-100 text-ink-600"
+};
+
+// Leave dates are calendar days (YYYY-MM-DD), so they compare as strings.
+export function isOnLeave(leave: Pick<LeaveRequest, "startDate" | "endDate" | "status">, date: string) {
+  return leave.status === "approved" && leave.startDate <= date && date <= leave.endDate;
+}
+
+export function findLeaveOn(items: LeaveRequest[], userId: string, date: string) {
+  return items.find((leave) => leave.userId === userId && isOnLeave(leave, date));
+}
+
+export function leaveDaysWithin(leave: Pick<LeaveRequest, "startDate" | "endDate">, start: string, end: string) {
+  const from = leave.startDate > start ? leave.startDate : start;
+  const to = leave.endDate < end ? leave.endDate : end;
+  if (to < from) {
+    return 0;
+  }
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+export function formatLeaveRange(leave: Pick<LeaveRequest, "startDate" | "endDate">) {
+  const format = (value: string) =>
+    new Date(`${value}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  return leave.startDate === leave.endDate
+    ? format(leave.startDate)
+    : `${format(leave.startDate)} – ${format(leave.endDate)}`;
+}
@@ -0,0 +1,242 @@
+export type LivenessChallenge = "turn-left" | "turn-right" | "nod" | "blink";
+
+export type LivenessResult = {
+  challenge: LivenessChallenge;
+  passed: boolean;
+  confidence: number;
+};
+
+export const livenessPrompts: Record<LivenessChallenge, string> = {
+  "turn-left": "Slowly turn your head to the left, then back",
+  "turn-right": "Slowly turn your head to the right, then back",
+  nod: "Nod your head down and back up",
+  blink: "Keep still and blink twice"
+};
+
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+const SAMPLE_DURATION_MS = 3000;
+const SAMPLE_INTERVAL_MS = 100;
+const MAX_SHIFT = 10;
+const PASS_THRESHOLD = 0.6;
+
+type Frame = Float32Array;
+type Box = { x0: number; x1: number; y0: number; y1: number };
+
+// Regions are fractions of the visible preview; the capture screen draws the face box as a guide.
+export const livenessFaceBox: Box = { x0: 0.25, x1: 0.75, y0: 0.1, y1: 0.9 };
+const faceBox = livenessFaceBox;
+const eyeBox: Box = { x0: 0.3, x1: 0.7, y0: 0.28, y1: 0.48 };
+
+export function pickChallenge(previous?: LivenessChallenge): LivenessChallenge {
+  const options = (Object.keys(livenessPrompts) as LivenessChallenge[]).filter((item) => item !== previous);
+  const random = new Uint32Array(1);
+  crypto.getRandomValues(random);
+  return options[random[0] % options.length];
+}
+
+export async function runLivenessCheck(
+  video: HTMLVideoElement,
+  challenge: LivenessChallenge,
+  onProgress?: (progress: number) => void
+): Promise<LivenessResult> {
+  const frames = await sampleFrames(video, onProgress);
+  const confidence = Math.round(scoreFrames(frames, challenge) * 100) / 100;
+  return { challenge, passed: confidence >= PASS_THRESHOLD, confidence };
+}
+
+async function sampleFrames(video: HTMLVideoElement, onProgress?: (progress: number) => void) {
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Liveness check is not supported in this browser.");
+  }
+
+  const total = Math.round(SAMPLE_DURATION_MS / SAMPLE_INTERVAL_MS);
+  const frames: Frame[] = [];
+  const crop = visibleCrop(video);
+  for (let index = 0; index < total; index += 1) {
+    ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const frame = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+    for (let pixel = 0; pixel < frame.length; pixel += 1) {
+      const offset = pixel * 4;
+      frame[pixel] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    }
+    frames.push(frame);
+    onProgress?.((index + 1) / total);
+    await new Promise((resolve) => window.setTimeout(resolve, SAMPLE_INTERVAL_MS));
+  }
+  return frames;
+}
+
+// The preview is object-cover, so only a centred crop matching the element's aspect ratio is on screen.
+function visibleCrop(video: HTMLVideoElement) {
+  const width = video.videoWidth || SAMPLE_WIDTH;
+  const height = video.videoHeight || SAMPLE_HEIGHT;
+  const viewRatio =
+    video.clientWidth > 0 && video.clientHeight > 0 ? video.clientWidth / video.clientHeight : width / height;
+  if (width / height > viewRatio) {
+    const visibleWidth = height * viewRatio;
+    return { x: (width - visibleWidth) / 2, y: 0, width: visibleWidth, height };
+  }
+  const visibleHeight = width / viewRatio;
+  return { x: 0, y: (height - visibleHeight) / 2, width, height: visibleHeight };
+}
+
+function scoreFrames(frames: Frame[], challenge: LivenessChallenge) {
+  if (frames.length < 10) {
+    return 0;
+  }
+
+  const pairs = frames.slice(1).map((frame, index) => ({
+    face: regionDifference(frame, frames[index], faceBox),
+    background: backgroundDifference(frame, frames[index]),
+    eyes: regionDifference(frame, frames[index], eyeBox)
+  }));
+  const faceMotion = average(pairs.map((pair) => pair.face));
+  const backgroundMotion = average(pairs.map((pair) => pair.background));
+
+  // A printed photo or a phone screen is either frozen or moves as one rigid plane.
+  if (faceMotion < 0.4) {
+    return 0.1 * clamp(faceMotion / 0.4);
+  }
+  const locality = clamp((faceMotion / (backgroundMotion + 0.5) - 1) / 2);
+
+  let signal: number;
+  if (challenge === "blink") {
+    const eyeRatios = pairs.map((pair) => pair.eyes / (pair.face + 0.5));
+    const sorted = [...eyeRatios].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const peak = sorted[sorted.length - 1];
+    const spikes = eyeRatios.filter((ratio) => ratio > median * 1.6).length;
+    signal = clamp((peak / (median + 0.01) - 1.4) / 1.6) * (spikes >= 1 && spikes <= 8 ? 1 : 0.4);
+  } else {
+    const baseline = averageFrames(frames.slice(0, 3));
+    const axis = challenge === "nod" ? "vertical" : "horizontal";
+    const shifts = frames.slice(3).map((frame) => estimateShift(baseline, frame, axis));
+    // The preview is not mirrored, so the user's left appears on the right of the raw frame.
+    const expected = challenge === "turn-left" ? 1 : challenge === "turn-right" ? -1 : 0;
+    const travel =
+      expected === 0
+        ? Math.max(...shifts.map((shift) => Math.abs(shift)))
+        : Math.max(0, ...shifts.map((shift) => shift * expected));
+    const returned = Math.abs(shifts[shifts.length - 1]) < Math.max(2, travel / 2);
+    signal = clamp((travel - 1) / 4) * (returned ? 1 : 0.7);
+  }
+
+  return clamp(0.6 * signal + 0.3 * locality + 0.1 * clamp(faceMotion / 3));
+}
+
+function regionDifference(current: Frame, previous: Frame, box: Box) {
+  const { x0, x1, y0, y1 } = toPixels(box);
+  let total = 0;
+  for (let y = y0; y < y1; y += 1) {
+    for (let x = x0; x < x1; x += 1) {
+      const index = y * SAMPLE_WIDTH + x;
+      total += Math.abs(current[index] - previous[index]);
+    }
+  }
+  return total / Math.max(1, (x1 - x0) * (y1 - y0));
+}
+
+function backgroundDifference(current: Frame, previous: Frame) {
+  const { x0, x1, y0, y1 } = toPixels(faceBox);
+  let total = 0;
+  let count = 0;
+  for (let y = 0; y < SAMPLE_HEIGHT; y += 1) {
+    for (let x = 0; x < SAMPLE_WIDTH; x += 1) {
+      if (x >= x0 && x < x1 && y >= y0 && y < y1) {
+        continue;
+      }
+      const index = y * SAMPLE_WIDTH + x;
+      total += Math.abs(current[index] - previous[index]);
+      count += 1;
+    }
+  }
+  return total / Math.max(1, count);
+}
+
+function estimateShift(baseline: Frame, frame: Frame, axis: "horizontal" | "vertical") {
+  const base = normalize(profile(baseline, axis));
+  const current = normalize(profile(frame, axis));
+  let bestShift = 0;
+  let bestError = Number.POSITIVE_INFINITY;
+  for (let shift = -MAX_SHIFT; shift <= MAX_SHIFT; shift += 1) {
+    let error = 0;
+    let count = 0;
+    for (let index = 0; index < base.length; index += 1) {
+      const target = index + shift;
+      if (target < 0 || target >= current.length) {
+        continue;
+      }
+      error += Math.abs(current[target] - base[index]);
+      count += 1;
+    }
+    const meanError = error / Math.max(1, count);
+    if (meanError < bestError) {
+      bestError = meanError;
+      bestShift = shift;
+    }
+  }
+  return bestShift;
+}
+
+// Column means across the face band (horizontal) or row means across it (vertical).
+function profile(frame: Frame, axis: "horizontal" | "vertical") {
+  const { x0, x1, y0, y1 } = toPixels(faceBox);
+  if (axis === "horizontal") {
+    const values = new Float32Array(SAMPLE_WIDTH);
+    for (let x = 0; x < SAMPLE_WIDTH; x += 1) {
+      let total = 0;
+      for (let y = y0; y < y1; y += 1) {
+        total += frame[y * SAMPLE_WIDTH + x];
+      }
+      values[x] = total / (y1 - y0);
+    }
+    return values;
+  }
+  const values = new Float32Array(SAMPLE_HEIGHT);
+  for (let y = 0; y < SAMPLE_HEIGHT; y += 1) {
+    let total = 0;
+    for (let x = x0; x < x1; x += 1) {
+      total += frame[y * SAMPLE_WIDTH + x];
+    }
+    values[y] = total / (x1 - x0);
+  }
+  return values;
+}
+
+function normalize(values: Float32Array) {
+  const mean = average(Array.from(values));
+  return Array.from(values, (value) => value - mean);
+}
+
+function averageFrames(frames: Frame[]) {
+  const result = new Float32Array(frames[0].length);
+  for (const frame of frames) {
+    for (let index = 0; index < frame.length; index += 1) {
+      result[index] += frame[index] / frames.length;
+    }
+  }
+  return result;
+}
+
+function toPixels(box: Box) {
+  return {
+    x0: Math.floor(box.x0 * SAMPLE_WIDTH),
+    x1: Math.ceil(box.x1 * SAMPLE_WIDTH),
+    y0: Math.floor(box.y0 * SAMPLE_HEIGHT),
+    y1: Math.ceil(box.y1 * SAMPLE_HEIGHT)
+  };
+}
+
+function average(values: number[]) {
+  return values.length === 0 ? 0 : values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+function clamp(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
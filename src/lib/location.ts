@@ -3,7 +3,9 @@ export type LocationResult = {
   latitude: number;
   longitude: number;
   accuracy?: number;
+  rawAccuracy?: number;
   source: "gps" | "network";
+  fixedAt?: string;
 };
 
 export async function getDeviceLocation(): Promise<LocationResult> {
@@ -83,7 +85,9 @@ function formatPosition(position: GeolocationPosition): LocationResult {
     latitude,
     longitude,
     accuracy: acc,
-    source: "gps"
+    rawAccuracy: accuracy,
+    source: "gps",
+    fixedAt: new Date(position.timestamp).toISOString()
   };
 }
 
@@ -0,0 +1,9 @@
+export type RiskLevel = "low" | "medium" | "high";
+
+// Bands for the spoofing score the server computes from the raw position sent with each capture.
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 60) {
+    return "high";
+  }
+  return score >= 30 ? "medium" : "low";
+}
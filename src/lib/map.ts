@@ -0,0 +1,85 @@
+// Tiles come from the deployment's own provider; without one the map draws a plain coordinate plot.
+const configuredTileUrl = import.meta.env.VITE_MAP_TILE_URL;
+export const MAP_TILE_URL = configuredTileUrl && configuredTileUrl !== "none" ? configuredTileUrl : null;
+export const MAP_ATTRIBUTION = import.meta.env.VITE_MAP_ATTRIBUTION ?? "";
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+export type MapPoint = {
+  x: number;
+  y: number;
+};
+
+export type MapCluster<T> = MapPoint & {
+  items: T[];
+};
+
+// Web Mercator world pixels at the given zoom, the same grid slippy-map tile servers use.
+export function project(latitude: number, longitude: number, zoom: number): MapPoint {
+  const size = TILE_SIZE * 2 ** zoom;
+  const clamped = Math.max(Math.min(latitude, 85.0511), -85.0511);
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size
+  };
+}
+
+export function unproject(point: MapPoint, zoom: number) {
+  const size = TILE_SIZE * 2 ** zoom;
+  return {
+    latitude: (Math.atan(Math.sinh(Math.PI * (1 - (2 * point.y) / size))) * 180) / Math.PI,
+    longitude: (point.x / size) * 360 - 180
+  };
+}
+
+export function metersPerPixel(latitude: number, zoom: number) {
+  return (156543.03392 * Math.cos((latitude * Math.PI) / 180)) / 2 ** zoom;
+}
+
+// Highest zoom at which every position fits inside the viewport with some padding.
+export function fitZoom(
+  positions: { latitude: number; longitude: number }[],
+  width: number,
+  height: number,
+  padding = 48
+) {
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom -= 1) {
+    const points = positions.map((position) => project(position.latitude, position.longitude, zoom));
+    const spanX = Math.max(...points.map((point) => point.x)) - Math.min(...points.map((point) => point.x));
+    const spanY = Math.max(...points.map((point) => point.y)) - Math.min(...points.map((point) => point.y));
+    if (spanX <= width - padding * 2 && spanY <= height - padding * 2) {
+      return zoom;
+    }
+  }
+  return MIN_ZOOM;
+}
+
+export function tileUrl(template: string, zoom: number, x: number, y: number) {
+  const count = 2 ** zoom;
+  const wrappedX = ((x % count) + count) % count;
+  return template
+    .replace("{z}", String(zoom))
+    .replace("{x}", String(wrappedX))
+    .replace("{y}", String(y))
+    .replace("{s}", "abc"[(wrappedX + y) % 3]);
+}
+
+// Greedy screen-space clustering: each point joins the first cluster within `radius` pixels.
+export function clusterPoints<T>(items: T[], toPoint: (item: T) => MapPoint, radius = 24): MapCluster<T>[] {
+  const clusters: MapCluster<T>[] = [];
+  for (const item of items) {
+    const point = toPoint(item);
+    const cluster = clusters.find((entry) => Math.hypot(entry.x - point.x, entry.y - point.y) <= radius);
+    if (cluster) {
+      cluster.items.push(item);
+      cluster.x += (point.x - cluster.x) / cluster.items.length;
+      cluster.y += (point.y - cluster.y) / cluster.items.length;
+    } else {
+      clusters.push({ ...point, items: [item] });
+    }
+  }
+  return clusters;
+}
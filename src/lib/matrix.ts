@@ -0,0 +1,80 @@
+import { buildDays, type DayKind, type HistoryContext, type HistoryDay, type RecordEvaluation } from "./history";
+import { isExpectedOn } from "./people";
+import type { AttendanceRecord, LeaveRequest, RosterUser } from "../types";
+
+export type MatrixTotals = {
+  onTime: number;
+  late: number;
+  absent: number;
+  leave: number;
+};
+
+export type MatrixRow = {
+  user: RosterUser;
+  days: HistoryDay[];
+  totals: MatrixTotals;
+};
+
+const emptyTotals = (): MatrixTotals => ({ onTime: 0, late: 0, absent: 0, leave: 0 });
+
+function countDay(totals: MatrixTotals, kind: DayKind) {
+  if (kind === "on-time") {
+    totals.onTime += 1;
+  } else if (kind === "late" || kind === "very-late") {
+    totals.late += 1;
+  } else if (kind === "absent") {
+    totals.absent += 1;
+  } else if (kind === "leave") {
+    totals.leave += 1;
+  }
+}
+
+// Monday to Sunday around `date`, matching the Monday-first calendar grids.
+export function weekDates(date: string) {
+  const monday = new Date(`${date}T00:00:00Z`);
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(monday);
+    day.setUTCDate(monday.getUTCDate() + index);
+    return day.toISOString().slice(0, 10);
+  });
+}
+
+// Days before a start date or after an end date read as days off, so they never count as absences.
+export function buildMatrix(
+  users: RosterUser[],
+  dates: string[],
+  items: AttendanceRecord[],
+  evaluations: Map<string, RecordEvaluation>,
+  leave: LeaveRequest[],
+  context: HistoryContext,
+  todayKey: string
+): MatrixRow[] {
+  const itemsByUser = new Map<string, AttendanceRecord[]>();
+  for (const item of items) {
+    itemsByUser.set(item.userId, [...(itemsByUser.get(item.userId) ?? []), item]);
+  }
+  return users
+    .filter((user) => itemsByUser.has(user.id) || dates.some((date) => isExpectedOn(user, date)))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((user) => {
+      const userItems = itemsByUser.get(user.id) ?? [];
+      const days = buildDays(user.id, dates, userItems, evaluations, leave, context, todayKey).map(
+        (day): HistoryDay =>
+          !day.record && day.kind !== "leave" && !isExpectedOn(user, day.date)
+            ? { date: day.date, kind: "off", label: "Not employed" }
+            : day
+      );
+      const totals = emptyTotals();
+      days.forEach((day) => countDay(totals, day.kind));
+      return { user, days, totals };
+    });
+}
+
+export function columnTotals(rows: MatrixRow[], dates: string[]) {
+  return dates.map((date, index) => {
+    const totals = emptyTotals();
+    rows.forEach((row) => countDay(totals, row.days[index].kind));
+    return { date, ...totals };
+  });
+}
@@ -0,0 +1,69 @@
+import type { CheckinSubmission } from "./checkin";
+
+export type OutboxEntry = CheckinSubmission & {
+  id: string;
+  userId: string;
+  attempts: number;
+  lastError?: string;
+  // Refused as invalid (e.g. 400 or 422); kept only so the user can read why and discard it.
+  // Entries refused for an expired session stay pending and retry after the next sign-in.
+  failed?: boolean;
+};
+
+const DB_NAME = "attendance-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "checkins";
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    if (!("indexedDB" in window)) {
+      reject(new Error("Offline storage is not supported on this device."));
+      return;
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Unable to open offline storage."));
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error("Offline storage request failed."));
+      transaction.onabort = () => reject(transaction.error ?? new Error("Offline storage request aborted."));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function listOutboxEntries(userId: string) {
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
+
+export async function addOutboxEntry(entry: Omit<OutboxEntry, "id" | "attempts">) {
+  const stored: OutboxEntry = { ...entry, id: crypto.randomUUID(), attempts: 0 };
+  await withStore("readwrite", (store) => store.add(stored));
+  return stored;
+}
+
+export async function putOutboxEntry(entry: OutboxEntry) {
+  await withStore("readwrite", (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,184 @@
+// Minimal PDF 1.4 writer: built-in Helvetica, filled rectangles, lines and JPEG images.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfImage = {
+  data: Uint8Array<ArrayBuffer>;
+  width: number;
+  height: number;
+};
+
+export type PdfColor = [number, number, number];
+
+export type PdfTextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: "left" | "right";
+};
+
+type PdfPage = {
+  ops: string[];
+};
+
+// A4 landscape.
+export const PDF_PAGE_WIDTH = 842;
+export const PDF_PAGE_HEIGHT = 595;
+
+const color = ([r, g, b]: PdfColor) => [r, g, b].map((value) => (value / 255).toFixed(3)).join(" ");
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+// WinAnsi code points for the few punctuation marks outside Latin-1 that the app's labels use.
+const winAnsiExtras: Record<string, string> = {
+  "…": "\\205",
+  "•": "\\225",
+  "–": "\\226",
+  "—": "\\227",
+  "’": "\\222"
+};
+
+// Helvetica uses WinAnsi; Latin-1 characters are written as octal escapes and anything else becomes "?".
+function pdfString(text: string) {
+  let out = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === "\\" || char === "(" || char === ")") {
+      out += `\\${char}`;
+    } else if (code >= 32 && code < 127) {
+      out += char;
+    } else if (code >= 160 && code <= 255) {
+      out += `\\${code.toString(8).padStart(3, "0")}`;
+    } else if (winAnsiExtras[char]) {
+      out += winAnsiExtras[char];
+    } else {
+      out += "?";
+    }
+  }
+  return `(${out})`;
+}
+
+// Helvetica averages a little over half an em per character, close enough for clipping table cells.
+export function estimateTextWidth(text: string, size: number) {
+  return text.length * size * 0.52;
+}
+
+export function fitText(text: string, size: number, maxWidth: number) {
+  if (estimateTextWidth(text, size) <= maxWidth) {
+    return text;
+  }
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * 0.52)) - 1);
+  return `${text.slice(0, maxChars)}…`;
+}
+
+export function createPdf() {
+  const pages: PdfPage[] = [];
+  const images: PdfImage[] = [];
+  let current: PdfPage | null = null;
+
+  const page = () => {
+    if (!current) {
+      throw new Error("Add a page before drawing.");
+    }
+    return current;
+  };
+  const flipY = (y: number) => PDF_PAGE_HEIGHT - y;
+
+  return {
+    addPage() {
+      current = { ops: [] };
+      pages.push(current);
+    },
+    get pageCount() {
+      return pages.length;
+    },
+    // Draws onto an earlier page, e.g. to add "page n of m" footers once the length is known.
+    onPage(index: number, draw: () => void) {
+      const previous = current;
+      current = pages[index];
+      draw();
+      current = previous;
+    },
+    text(value: string, x: number, y: number, options: PdfTextOptions = {}) {
+      const { size = 10, bold = false, color: fill = [31, 31, 31], align = "left" } = options;
+      const left = align === "right" ? x - estimateTextWidth(value, size) : x;
+      const font = `/${bold ? "F2" : "F1"} ${num(size)} Tf`;
+      page().ops.push(`BT ${font} ${color(fill)} rg ${num(left)} ${num(flipY(y))} Td ${pdfString(value)} Tj ET`);
+    },
+    rect(x: number, y: number, width: number, height: number, fill: PdfColor) {
+      page().ops.push(`${color(fill)} rg ${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re f`);
+    },
+    line(x1: number, y1: number, x2: number, y2: number, stroke: PdfColor, width = 0.5) {
+      page().ops.push(
+        `${color(stroke)} RG ${num(width)} w ${num(x1)} ${num(flipY(y1))} m ${num(x2)} ${num(flipY(y2))} l S`
+      );
+    },
+    image(image: PdfImage, x: number, y: number, width: number, height: number) {
+      let index = images.indexOf(image);
+      if (index === -1) {
+        index = images.push(image) - 1;
+      }
+      page().ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(flipY(y + height))} cm /Im${index} Do Q`);
+    },
+    toBlob() {
+      const encoder = new TextEncoder();
+      const chunks: Uint8Array<ArrayBuffer>[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+      const write = (chunk: string | Uint8Array<ArrayBuffer>) => {
+        const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+      };
+      const object = (id: number, body: string, stream?: Uint8Array<ArrayBuffer>) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+          write("stream\n");
+          write(stream);
+          write("\nendstream\n");
+        }
+        write("endobj\n");
+      };
+
+      // 1 catalog, 2 page tree, 3-4 fonts, then images, then a page + content stream pair per page.
+      const imageId = (index: number) => 5 + index;
+      const pageId = (index: number) => 5 + images.length + index * 2;
+
+      write("%PDF-1.4\n");
+      object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+      object(
+        2,
+        `<< /Type /Pages /Count ${pages.length} /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(" ")}] >>`
+      );
+      object(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      object(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      images.forEach((image, index) => {
+        object(
+          imageId(index),
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB ` +
+            `/BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+          image.data
+        );
+      });
+      const xObjects = images.map((_, index) => `/Im${index} ${imageId(index)} 0 R`).join(" ");
+      pages.forEach((entry, index) => {
+        const content = encoder.encode(entry.ops.join("\n"));
+        object(
+          pageId(index),
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> ` +
+            `/Contents ${pageId(index) + 1} 0 R >>`
+        );
+        object(pageId(index) + 1, `<< /Length ${content.length} >>`, content);
+      });
+
+      const xrefOffset = length;
+      const count = pageId(pages.length);
+      write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+      for (let id = 1; id < count; id += 1) {
+        write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+      }
+      write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+      return new Blob(chunks, { type: "application/pdf" });
+    }
+  };
+}
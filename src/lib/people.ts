@@ -0,0 +1,24 @@
+import type { Role, RosterUser, UserStatus } from "../types";
+
+export const roleLabels: Record<Role, string> = {
+  user: "Employee",
+  admin: "Admin"
+};
+
+export const userStatusStyles: Record<UserStatus, string> = {
+  active: "bg-emerald-100 text-emerald-800",
+  invited: "bg-amber-100 text-amber-800",
+  deactivated: "bg-ink-100 text-ink-600"
+};
+
+export function userStatus(user: Pick<RosterUser, "status">): UserStatus {
+  return user.status ?? "active";
+}
+
+// Pending invites and staff past their end date are never expected to check in.
+export function isExpectedOn(user: Pick<RosterUser, "status" | "endDate">, date: string) {
+  if (userStatus(user) === "invited") {
+    return false;
+  }
+  return !user.endDate || date < user.endDate;
+}
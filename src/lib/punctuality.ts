@@ -0,0 +1,80 @@
+import type { AttendanceRecord, LatenessPolicy } from "../types";
+
+export type LatenessTier = "On time" | "Late" | "Very late";
+
+export type LatenessResult = {
+  status: LatenessTier;
+  minutesLate: number;
+  // Signed distance from the scheduled start; negative means early.
+  offsetMinutes: number;
+};
+
+export const defaultLatenessPolicy: LatenessPolicy = { graceMinutes: 0, veryLateAfterMinutes: 30 };
+
+// minutesLate is measured from the scheduled start; the grace window only decides the tier.
+// A shift ending earlier than it starts runs past midnight, so arrivals before its end count from the day before.
+export function evaluateLateness(
+  item: AttendanceRecord,
+  cutoffTime: string,
+  siteTimeZone?: string,
+  policy: LatenessPolicy = defaultLatenessPolicy,
+  shiftEndTime?: string
+): LatenessResult {
+  const cutoff = parseCutoffTime(cutoffTime) ?? { hour: 8, minute: 0 };
+  const shiftEnd = shiftEndTime ? parseCutoffTime(shiftEndTime) : null;
+  const { hour, minute } = getLocalTimeParts(item.capturedAt, item.timezone ?? siteTimeZone);
+  const arrival = hour * 60 + minute;
+  const start = cutoff.hour * 60 + cutoff.minute;
+  const end = shiftEnd ? shiftEnd.hour * 60 + shiftEnd.minute : null;
+  const overnightArrival = end !== null && end < start && arrival < end;
+  const offsetMinutes = arrival - start + (overnightArrival ? 24 * 60 : 0);
+  const minutesLate = Math.max(0, offsetMinutes);
+  if (minutesLate <= policy.graceMinutes) {
+    return { status: "On time", minutesLate, offsetMinutes };
+  }
+  return { status: minutesLate > policy.veryLateAfterMinutes ? "Very late" : "Late", minutesLate, offsetMinutes };
+}
+
+export function formatMinutesLate(minutes: number) {
+  if (minutes <= 0) {
+    return "";
+  }
+  return minutes >= 60 ? `+${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m` : `+${minutes}m`;
+}
+
+export function getLocalTimeParts(iso: string, timeZone?: string) {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return { hour: 0, minute: 0 };
+  }
+  try {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      timeZone
+    });
+    const parts = formatter.formatToParts(date);
+    const hour = Number(parts.find((part) => part.type === "hour")?.value ?? "0");
+    const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0");
+    return { hour, minute };
+  } catch {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23"
+    });
+    const parts = formatter.formatToParts(date);
+    const hour = Number(parts.find((part) => part.type === "hour")?.value ?? "0");
+    const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0");
+    return { hour, minute };
+  }
+}
+
+export function parseCutoffTime(value: string) {
+  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) {
+    return null;
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
@@ -0,0 +1,32 @@
+export type ReminderTemplate = {
+  id: string;
+  label: string;
+  body: string;
+};
+
+// Placeholders are filled per recipient by the server; the composer previews them locally.
+export const reminderTemplates: ReminderTemplate[] = [
+  {
+    id: "gentle",
+    label: "Gentle nudge",
+    body: "Hi {name}, a quick reminder to check in with a photo before {cutoff}."
+  },
+  {
+    id: "late",
+    label: "Past cutoff",
+    body: "Hi {name}, we haven't seen your check-in today. Please check in now or let your manager know."
+  },
+  {
+    id: "custom",
+    label: "Custom",
+    body: ""
+  }
+];
+
+export function findTemplate(id: string) {
+  return reminderTemplates.find((template) => template.id === id) ?? reminderTemplates[0];
+}
+
+export function renderReminder(body: string, values: { name: string; cutoff: string }) {
+  return body.replace(/\{name\}/g, values.name).replace(/\{cutoff\}/g, values.cutoff);
+}
@@ -0,0 +1,48 @@
+export function registerServiceWorker(onUpdate: (worker: ServiceWorker) => void) {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+    return;
+  }
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        onUpdate(registration.waiting);
+      }
+      registration.addEventListener("updatefound", () => {
+        const installing = registration.installing;
+        installing?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update.
+          if (installing.state === "installed" && navigator.serviceWorker.controller) {
+            onUpdate(installing);
+          }
+        });
+      });
+    } catch {
+      // The app still works without offline support.
+    }
+  };
+
+  if (document.readyState === "complete") {
+    register();
+  } else {
+    window.addEventListener("load", register, { once: true });
+  }
+}
+
+export function getWorkerVersion(worker: ServiceWorker) {
+  return new Promise<string | null>((resolve) => {
+    const channel = new MessageChannel();
+    const timeout = window.setTimeout(() => resolve(null), 2000);
+    channel.port1.onmessage = (event) => {
+      window.clearTimeout(timeout);
+      resolve(typeof event.data === "string" ? event.data : null);
+    };
+    worker.postMessage({ type: "GET_VERSION" }, [channel.port2]);
+  });
+}
+
+export function activateWorker(worker: ServiceWorker) {
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  worker.postMessage({ type: "SKIP_WAITING" });
+}
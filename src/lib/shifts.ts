@@ -0,0 +1,27 @@
+import { weekdayLabels } from "./calendar";
+import type { ShiftSchedule, ShiftTemplate } from "../types";
+
+export const emptyShiftSchedule: ShiftSchedule = { templates: [], assignments: [] };
+
+// The latest assignment that has taken effect on `date` wins; employees without one fall back to site cutoffs.
+export function findShiftFor(userId: string, date: string, schedule: ShiftSchedule) {
+  const assignment = schedule.assignments
+    .filter((item) => item.userId === userId && item.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+  if (!assignment) {
+    return null;
+  }
+  return schedule.templates.find((template) => template.id === assignment.shiftId) ?? null;
+}
+
+export function isScheduledOn(shift: Pick<ShiftTemplate, "days">, date: string) {
+  return shift.days.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+}
+
+export function formatShiftDays(days: number[]) {
+  // Monday-first so Mon–Fri reads naturally.
+  return [1, 2, 3, 4, 5, 6, 0]
+    .filter((day) => days.includes(day))
+    .map((day) => weekdayLabels[day])
+    .join(", ");
+}
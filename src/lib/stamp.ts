@@ -0,0 +1,193 @@
+import type { LocationResult } from "./location";
+import type { PhotoStamp } from "../types";
+
+export type StampDetails = {
+  userName: string;
+  capturedAt: string;
+  timezone: string;
+  location: LocationResult;
+};
+
+export type StampedRecord = {
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
+};
+
+export type StampVerification = {
+  status: "verified" | "altered" | "mismatch" | "unavailable";
+  message: string;
+};
+
+const GRID_WIDTH = 16;
+const GRID_HEIGHT = 12;
+const FOOTER_RATIO = 0.14;
+const BLOCK_TOLERANCE = 2;
+const HASH_LENGTH = 10;
+
+export function footerHeightFor(width: number) {
+  return Math.round(width * FOOTER_RATIO);
+}
+
+// The canvas must already hold the frame in its top `frameHeight` pixels with room for the footer below.
+export async function applyStamp(canvas: HTMLCanvasElement, frameHeight: number, details: StampDetails) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Unable to stamp photo.");
+  }
+  const fingerprint = fingerprintRegion(canvas, frameHeight);
+  const payload = buildPayload(details);
+  const hash = await hashStamp(payload, fingerprint);
+
+  const { width } = canvas;
+  const footerHeight = canvas.height - frameHeight;
+  const fontSize = Math.max(11, Math.round(footerHeight * 0.26));
+  const padding = Math.round(fontSize * 0.8);
+  const { location } = details;
+  const localTime = new Date(details.capturedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    timeZone: details.timezone
+  });
+  const accuracy = typeof location.accuracy === "number" ? ` ±${Math.round(location.accuracy)}m` : "";
+
+  ctx.fillStyle = "#1f1f1f";
+  ctx.fillRect(0, frameHeight, width, footerHeight);
+  ctx.fillStyle = "#ffffff";
+  ctx.textBaseline = "middle";
+  ctx.font = `600 ${fontSize}px "Source Sans 3", system-ui, sans-serif`;
+  ctx.fillText(
+    `${details.userName} · ${localTime} ${details.timezone}`,
+    padding,
+    frameHeight + footerHeight * 0.32,
+    width - padding * 2
+  );
+  ctx.font = `400 ${fontSize}px "Source Sans 3", system-ui, sans-serif`;
+  ctx.fillText(
+    `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}${accuracy} · #${hash}`,
+    padding,
+    frameHeight + footerHeight * 0.7,
+    width - padding * 2
+  );
+
+  return { payload, fingerprint, hash } satisfies PhotoStamp;
+}
+
+export async function verifyStamp(imageUrl: string, stamp: PhotoStamp, record: StampedRecord): Promise<StampVerification> {
+  const expectedHash = await hashStamp(stamp.payload, stamp.fingerprint);
+  if (expectedHash !== stamp.hash) {
+    return { status: "mismatch", message: "Stamp data does not match its hash." };
+  }
+  if (!payloadMatchesRecord(stamp.payload, record)) {
+    return { status: "mismatch", message: "Stamp time or coordinates differ from the record." };
+  }
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(imageUrl);
+  } catch {
+    return { status: "unavailable", message: "Photo could not be loaded for verification." };
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return { status: "unavailable", message: "Verification is not supported in this browser." };
+  }
+  ctx.drawImage(image, 0, 0);
+
+  let fingerprint: string;
+  try {
+    fingerprint = fingerprintRegion(canvas, canvas.height - footerHeightFor(canvas.width));
+  } catch {
+    return { status: "unavailable", message: "Photo host does not allow pixel access." };
+  }
+  if (!fingerprintsMatch(fingerprint, stamp.fingerprint)) {
+    return { status: "altered", message: "Image content changed after it was stamped." };
+  }
+  return { status: "verified", message: `Stamp #${stamp.hash} matches the image.` };
+}
+
+function buildPayload({ userName, capturedAt, timezone, location }: StampDetails) {
+  const accuracy = typeof location.accuracy === "number" ? Math.round(location.accuracy) : "";
+  return [
+    userName,
+    capturedAt,
+    timezone,
+    location.latitude.toFixed(5),
+    location.longitude.toFixed(5),
+    accuracy
+  ].join("|");
+}
+
+function payloadMatchesRecord(payload: string, record: StampedRecord) {
+  const [, capturedAt, , latitude, longitude] = payload.split("|");
+  if (typeof record.latitude === "number" && Math.abs(Number(latitude) - record.latitude) > 0.0001) {
+    return false;
+  }
+  if (typeof record.longitude === "number" && Math.abs(Number(longitude) - record.longitude) > 0.0001) {
+    return false;
+  }
+  if (record.capturedAt) {
+    // Live check-ins are timed by the server, so allow for the upload delay.
+    const drift = Math.abs(new Date(record.capturedAt).getTime() - new Date(capturedAt).getTime());
+    if (Number.isNaN(drift) || drift > 15 * 60000) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Mean luminance per grid block, quantized to one hex digit. Coarse enough to survive re-encoding.
+function fingerprintRegion(source: HTMLCanvasElement, frameHeight: number) {
+  const grid = document.createElement("canvas");
+  grid.width = GRID_WIDTH;
+  grid.height = GRID_HEIGHT;
+  const ctx = grid.getContext("2d");
+  if (!ctx) {
+    throw new Error("Unable to fingerprint photo.");
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, source.width, frameHeight, 0, 0, GRID_WIDTH, GRID_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, GRID_WIDTH, GRID_HEIGHT);
+  let fingerprint = "";
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    fingerprint += Math.min(15, Math.floor(luminance / 16)).toString(16);
+  }
+  return fingerprint;
+}
+
+function fingerprintsMatch(actual: string, expected: string) {
+  if (actual.length !== expected.length) {
+    return false;
+  }
+  for (let index = 0; index < actual.length; index += 1) {
+    if (Math.abs(parseInt(actual[index], 16) - parseInt(expected[index], 16)) > BLOCK_TOLERANCE) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function hashStamp(payload: string, fingerprint: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${payload}|${fingerprint}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, HASH_LENGTH);
+}
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load image."));
+    image.src = url;
+  });
+}
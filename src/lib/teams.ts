@@ -0,0 +1,34 @@
+import type { RosterUser, Team } from "../types";
+
+export type TeamGroup = {
+  team: Team | null;
+  label: string;
+  users: RosterUser[];
+};
+
+export function teamName(teamId: string | undefined, teams: Team[]) {
+  return teams.find((team) => team.id === teamId)?.name ?? "No team";
+}
+
+export function isTeamLead(userId: string, team: Team | null | undefined) {
+  return Boolean(team?.leadIds.includes(userId));
+}
+
+// Teams alphabetically, then anyone who has not been placed in a team yet.
+export function groupUsersByTeam(users: RosterUser[], teams: Team[]): TeamGroup[] {
+  const known = new Set(teams.map((team) => team.id));
+  const byName = (a: RosterUser, b: RosterUser) => a.name.localeCompare(b.name);
+  const groups: TeamGroup[] = [...teams]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((team) => ({
+      team,
+      label: team.name,
+      users: users.filter((user) => user.teamId === team.id).sort(byName)
+    }))
+    .filter((group) => group.users.length > 0);
+  const unassigned = users.filter((user) => !user.teamId || !known.has(user.teamId)).sort(byName);
+  if (unassigned.length > 0) {
+    groups.push({ team: null, label: "No team", users: unassigned });
+  }
+  return groups;
+}
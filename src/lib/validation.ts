@@ -49,10 +49,138 @@ export const resetPasswordSchema = z
     }
   });
 
+export const officeSiteSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  address: z.string().trim().max(200, "Address must be at most 200 characters"),
+  latitude: z
+    .number({ invalid_type_error: "Enter a latitude" })
+    .min(-90, "Latitude must be between -90 and 90")
+    .max(90, "Latitude must be between -90 and 90"),
+  longitude: z
+    .number({ invalid_type_error: "Enter a longitude" })
+    .min(-180, "Longitude must be between -180 and 180")
+    .max(180, "Longitude must be between -180 and 180"),
+  radiusMeters: z
+    .number({ invalid_type_error: "Enter a radius in meters" })
+    .int("Radius must be whole meters")
+    .min(10, "Radius must be at least 10m"),
+  timezone: z
+    .string()
+    .trim()
+    .refine((value) => isValidTimeZone(value), "Enter an IANA timezone such as Africa/Lagos"),
+  cutoffTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Cutoff time must be HH:mm")
+});
+
+export const reminderSchema = z.object({
+  userIds: z.array(z.string()).min(1, "Pick at least one recipient"),
+  templateId: z.string(),
+  message: z.string().trim().min(5, "Message must be at least 5 characters").max(320, "Message must be at most 320 characters")
+});
+
+export const reminderScheduleSchema = z.object({
+  enabled: z.boolean(),
+  minutesBefore: z
+    .number({ invalid_type_error: "Enter minutes before cutoff" })
+    .int("Use whole minutes")
+    .min(5, "Send at least 5 minutes before cutoff")
+    .max(240, "Send at most 240 minutes before cutoff"),
+  templateId: z.string(),
+  message: z.string().trim().min(5, "Message must be at least 5 characters").max(320, "Message must be at most 320 characters")
+});
+
+export const leaveRequestSchema = z
+  .object({
+    type: z.enum(["annual", "sick", "personal", "unpaid"]),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Choose a start date"),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Choose an end date"),
+    note: z.string().trim().max(500, "Note must be at most 500 characters")
+  })
+  .superRefine((data, ctx) => {
+    if (data.endDate < data.startDate) {
+      ctx.addIssue({
+        path: ["endDate"],
+        code: z.ZodIssueCode.custom,
+        message: "End date must be on or after start date"
+      });
+    }
+  });
+
+export const shiftTemplateSchema = z
+  .object({
+    name: z.string().trim().min(2, "Name must be at least 2 characters"),
+    startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time must be HH:mm"),
+    endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "End time must be HH:mm"),
+    days: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day")
+  })
+  .superRefine((data, ctx) => {
+    if (data.startTime === data.endTime) {
+      ctx.addIssue({
+        path: ["endTime"],
+        code: z.ZodIssueCode.custom,
+        message: "End time must differ from start time"
+      });
+    }
+  });
+
+export const inviteSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: z.string().trim().email("Enter a valid email"),
+  role: z.enum(["user", "admin"]),
+  teamId: z.string().optional()
+});
+
+export const flagCaseSchema = z.object({
+  reason: z.enum(["wrong-location", "photo-mismatch", "proxy-suspected", "time-mismatch", "other"]),
+  comment: z
+    .string()
+    .trim()
+    .min(3, "Explain why this check-in is flagged")
+    .max(1000, "Comment must be at most 1000 characters")
+});
+
+export const flagMessageSchema = z.object({
+  body: z.string().trim().min(1, "Write a reply").max(1000, "Reply must be at most 1000 characters")
+});
+
+export const teamSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(60, "Name must be 60 characters or fewer")
+});
+
+export const latenessPolicySchema = z
+  .object({
+    graceMinutes: z
+      .number({ invalid_type_error: "Enter grace minutes" })
+      .int("Use whole minutes")
+      .min(0, "Grace cannot be negative")
+      .max(120, "Grace must be at most 120 minutes"),
+    veryLateAfterMinutes: z
+      .number({ invalid_type_error: "Enter the very late threshold" })
+      .int("Use whole minutes")
+      .max(720, "Threshold must be at most 720 minutes")
+  })
+  .superRefine((data, ctx) => {
+    if (data.veryLateAfterMinutes <= data.graceMinutes) {
+      ctx.addIssue({
+        path: ["veryLateAfterMinutes"],
+        code: z.ZodIssueCode.custom,
+        message: "Very late must start after the grace window"
+      });
+    }
+  });
+
 export type LoginValues = z.infer<typeof loginSchema>;
 export type SignupValues = z.infer<typeof signupSchema>;
 export type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordValues = z.infer<typeof resetPasswordSchema>;
+export type OfficeSiteValues = z.infer<typeof officeSiteSchema>;
+export type LeaveRequestValues = z.infer<typeof leaveRequestSchema>;
+export type ShiftTemplateValues = z.infer<typeof shiftTemplateSchema>;
+export type TeamValues = z.infer<typeof teamSchema>;
+export type InviteValues = z.infer<typeof inviteSchema>;
+export type FlagCaseValues = z.infer<typeof flagCaseSchema>;
+export type FlagMessageValues = z.infer<typeof flagMessageSchema>;
+export type ReminderValues = z.infer<typeof reminderSchema>;
+export type ReminderScheduleValues = z.infer<typeof reminderScheduleSchema>;
 
 export function toFieldErrors(error: z.ZodError) {
   const flattened = error.flatten();
@@ -67,3 +195,15 @@ export function toFieldErrors(error: z.ZodError) {
     formError: flattened.formErrors[0]
   };
 }
+
+function isValidTimeZone(value: string) {
+  if (!value) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -16,16 +16,213 @@ export type AttendanceRecord = {
   locationLabel: string;
   photoUrl?: string;
   photoPublicId?: string;
-  flagComment?: string;
-  flaggedAt?: string;
+  flag?: FlagCase;
   latitude?: number;
   longitude?: number;
   accuracy?: number;
   timezone?: string;
+  checkedOutAt?: string;
+  checkoutLocationLabel?: string;
+  checkoutLatitude?: number;
+  checkoutLongitude?: number;
+  checkoutAccuracy?: number;
+  checkoutPhotoUrl?: string;
+  checkoutPhotoPublicId?: string;
+  // Matched and judged by the server from the submitted coordinates.
+  siteId?: string;
+  siteName?: string;
+  siteDistance?: number;
+  withinGeofence?: boolean;
+  delayedSync?: boolean;
+  syncedAt?: string;
+  livenessChallenge?: string;
+  livenessPassed?: boolean;
+  livenessScore?: number;
+  photoStamp?: PhotoStamp;
+  checkoutPhotoStamp?: PhotoStamp;
+  deviceId?: string;
+  signatureStatus?: SignatureStatus;
+  // Scored by the server; clients only send the raw position fields.
+  locationRisk?: LocationRisk;
+  checkoutLocationRisk?: LocationRisk;
 };
 
+export type UserStatus = "active" | "invited" | "deactivated";
+
 export type RosterUser = {
   id: string;
   name: string;
   email: string;
+  role?: Role;
+  status?: UserStatus;
+  // First calendar day (YYYY-MM-DD) the user no longer works here.
+  endDate?: string;
+  invitedAt?: string;
+  siteId?: string;
+  teamId?: string;
+};
+
+export type Team = {
+  id: string;
+  name: string;
+  leadIds: string[];
+};
+
+export type PhotoStamp = {
+  payload: string;
+  fingerprint: string;
+  hash: string;
+};
+
+export type LocationRisk = {
+  score: number;
+  reasons: string[];
+};
+
+export type SignatureStatus = "verified" | "invalid" | "unknown-device";
+
+export type ReminderDeliveryStatus = "queued" | "sent" | "delivered" | "failed";
+
+export type ReminderRecipient = {
+  userId: string;
+  name: string;
+  status: ReminderDeliveryStatus;
+  error?: string;
+  updatedAt?: string;
+};
+
+export type Reminder = {
+  id: string;
+  createdAt: string;
+  trigger: "manual" | "scheduled";
+  templateId: string;
+  message: string;
+  recipients: ReminderRecipient[];
+};
+
+export type ReminderSchedule = {
+  enabled: boolean;
+  minutesBefore: number;
+  templateId: string;
+  message: string;
+};
+
+export type LeaveType = "annual" | "sick" | "personal" | "unpaid";
+
+export type LeaveStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export type LeaveRequest = {
+  id: string;
+  userId: string;
+  userName: string;
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  note?: string;
+  status: LeaveStatus;
+  createdAt: string;
+  reviewedAt?: string;
+  reviewerName?: string;
+  reviewNote?: string;
+};
+
+export type Holiday = {
+  id: string;
+  date: string;
+  name: string;
+};
+
+export type WorkCalendar = {
+  workingDays: number[];
+  holidays: Holiday[];
+};
+
+export type ShiftTemplate = {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  days: number[];
+};
+
+export type ShiftAssignment = {
+  id: string;
+  userId: string;
+  shiftId: string;
+  effectiveFrom: string;
+};
+
+export type ShiftSchedule = {
+  templates: ShiftTemplate[];
+  assignments: ShiftAssignment[];
+};
+
+export type LatenessPolicy = {
+  graceMinutes: number;
+  veryLateAfterMinutes: number;
+};
+
+export type GeofenceMode = "block" | "warn";
+
+export type LivenessMode = "off" | "optional" | "required";
+
+export type OfficeSite = {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  timezone: string;
+  cutoffTime: string;
+  archivedAt?: string;
+};
+
+export type FlagReason = "wrong-location" | "photo-mismatch" | "proxy-suspected" | "time-mismatch" | "other";
+
+export type FlagStatus = "open" | "disputed" | "resolved" | "upheld";
+
+export type FlagMessage = {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorRole: Role;
+  body: string;
+  createdAt: string;
+};
+
+export type FlagCase = {
+  id: string;
+  attendanceId: string;
+  userId: string;
+  userName: string;
+  capturedAt: string;
+  reason: FlagReason;
+  status: FlagStatus;
+  messages: FlagMessage[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AuditAction =
+  | "attendance.flag"
+  | "attendance.delete"
+  | "settings.update"
+  | "leave.review"
+  | "user.invite"
+  | "user.role"
+  | "user.deactivate"
+  | "user.reactivate";
+
+export type AuditEntry = {
+  id: string;
+  createdAt: string;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  targetType: "attendance" | "settings" | "leave" | "user";
+  targetId?: string;
+  targetLabel?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
 };
@@ -1,8 +1,55 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import pkg from "./package.json";
+
+const publicShellFiles = [
+  "/manifest.webmanifest",
+  "/service-worker.js",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/maskable-512.png",
+  "/icons/apple-touch-icon.png"
+];
+
+// Emits /sw.js with the build's file list so every deploy changes the worker and triggers the update prompt.
+function serviceWorker(): Plugin {
+  return {
+    name: "attendance-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const bundleFiles = Object.keys(bundle)
+        .filter((fileName) => !/\.map$/.test(fileName))
+        .map((fileName) => `/${fileName}`);
+      const precache = [...publicShellFiles, ...bundleFiles].sort();
+      const version = `${pkg.version}-${hashString(precache.join("|"))}`;
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: [
+          `self.__SW_VERSION__ = ${JSON.stringify(version)};`,
+          `self.__PRECACHE_MANIFEST__ = ${JSON.stringify(precache)};`,
+          `importScripts("/service-worker.js");`,
+          ""
+        ].join("\n")
+      });
+    }
+  };
+}
+
+function hashString(value: string) {
+  let hash = 5381;
+  for (let index = 0; index < value.length; index += 1) {
+    hash = (hash * 33) ^ value.charCodeAt(index);
+  }
+  return (hash >>> 0).toString(36);
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
+  define: {
+    __APP_VERSION__: JSON.stringify(pkg.version)
+  },
   server: {
     port: 5173,
     proxy: {